@@ -33,9 +33,9 @@ export default tseslint.config(
 		},
 		rules: {
 			...obsidianmd.configs.recommended,
-			// Allow MCP, Dataview, Templater, MetaBind acronyms/names in UI text
+			// Allow MCP, OAuth, Dataview, Templater, MetaBind acronyms/names in UI text
 			"obsidianmd/ui/sentence-case": ["error", {
-				ignoreRegex: ["MCP", "Dataview", "Templater", "MetaBind", "Claude Code"]
+				ignoreRegex: ["MCP", "OAuth", "Dataview", "Templater", "MetaBind", "Claude Code"]
 			}]
 		}
 	},
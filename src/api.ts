@@ -0,0 +1,169 @@
+import type {
+	McpHttpServer,
+	PromptDefinition,
+	PromptHandler,
+	ResourceDefinition,
+	ResourceHandler,
+} from "./mcp-server";
+import type { ToolDefinition, ToolHandler, ToolOptions } from "./tools/types";
+
+export type {
+	PromptDefinition,
+	PromptHandler,
+	ResourceDefinition,
+	ResourceHandler,
+} from "./mcp-server";
+export type {
+	ToolAnnotations,
+	ToolContext,
+	ToolDefinition,
+	ToolHandler,
+	ToolOptions,
+	ToolPreview,
+	ToolResult,
+} from "./tools/types";
+export { ToolError } from "./errors";
+export type { ToolErrorCode } from "./errors";
+
+/**
+ * Workspace events fired with the API as argument
+ */
+export const SERVER_STARTED_EVENT = "connect-mcp:server-started";
+export const SERVER_STOPPED_EVENT = "connect-mcp:server-stopped";
+
+/**
+ * API for other plugins, available as `app.plugins.plugins["connect-mcp"].api`.
+ *
+ * Registrations are kept across server restarts. Tools registered here run through
+ * the same argument validation, SecurityManager scope (via `context.security`),
+ * approval and audit as the built-in tools. Tools not annotated with
+ * `readOnlyHint: true` are treated as write tools and hidden in read-only mode.
+ */
+export class ConnectMcpApi {
+	readonly version = 1;
+	private server: McpHttpServer | null = null;
+	private tools = new Map<
+		string,
+		{ definition: ToolDefinition; handler: ToolHandler; options: ToolOptions }
+	>();
+	private resources = new Map<string, { definition: ResourceDefinition; handler: ResourceHandler }>();
+	private prompts = new Map<string, { definition: PromptDefinition; handler: PromptHandler }>();
+
+	/**
+	 * Whether the MCP server is currently running
+	 */
+	isServerRunning(): boolean {
+		return this.server?.isServerRunning() ?? false;
+	}
+
+	/**
+	 * Register a tool
+	 * @returns Function that unregisters the tool
+	 * @throws Error if the name is already taken
+	 */
+	registerTool(definition: ToolDefinition, handler: ToolHandler, options: ToolOptions = {}): () => void {
+		if (this.tools.has(definition.name) || this.server?.hasTool(definition.name)) {
+			throw new Error(`Tool already registered: ${definition.name}`);
+		}
+
+		const readOnly = definition.annotations?.readOnlyHint === true;
+		const wrappedOptions: ToolOptions = {
+			...options,
+			isAvailable: (security) =>
+				(readOnly || security.canWrite) && (options.isAvailable?.(security) ?? true),
+		};
+
+		this.tools.set(definition.name, { definition, handler, options: wrappedOptions });
+		this.server?.registerTool(definition, handler, wrappedOptions);
+		return () => this.unregisterTool(definition.name);
+	}
+
+	/**
+	 * Remove a tool registered through this API
+	 */
+	unregisterTool(name: string): void {
+		if (this.tools.delete(name)) {
+			this.server?.unregisterTool(name);
+		}
+	}
+
+	/**
+	 * Register a static resource
+	 * @returns Function that unregisters the resource
+	 * @throws Error if the URI is already taken
+	 */
+	registerResource(definition: ResourceDefinition, handler: ResourceHandler): () => void {
+		if (this.resources.has(definition.uri) || this.server?.hasResource(definition.uri)) {
+			throw new Error(`Resource already registered: ${definition.uri}`);
+		}
+
+		this.resources.set(definition.uri, { definition, handler });
+		this.server?.registerResource(definition, handler);
+		return () => this.unregisterResource(definition.uri);
+	}
+
+	/**
+	 * Remove a resource registered through this API
+	 */
+	unregisterResource(uri: string): void {
+		if (this.resources.delete(uri)) {
+			this.server?.unregisterResource(uri);
+		}
+	}
+
+	/**
+	 * Register a prompt
+	 * @returns Function that unregisters the prompt
+	 * @throws Error if the name is already taken
+	 */
+	registerPrompt(definition: PromptDefinition, handler: PromptHandler): () => void {
+		if (this.prompts.has(definition.name)) {
+			throw new Error(`Prompt already registered: ${definition.name}`);
+		}
+
+		this.prompts.set(definition.name, { definition, handler });
+		this.server?.registerPrompt(definition, handler);
+		return () => this.unregisterPrompt(definition.name);
+	}
+
+	/**
+	 * Remove a prompt registered through this API
+	 */
+	unregisterPrompt(name: string): void {
+		if (this.prompts.delete(name)) {
+			this.server?.unregisterPrompt(name);
+		}
+	}
+
+	/**
+	 * Add all registrations to a newly created server (called by the plugin, not by extensions)
+	 */
+	attach(server: McpHttpServer): void {
+		this.server = server;
+
+		for (const [name, tool] of this.tools) {
+			if (server.hasTool(name)) {
+				console.warn(`Connect MCP: extension tool "${name}" conflicts with a built-in tool and was skipped`);
+				continue;
+			}
+			server.registerTool(tool.definition, tool.handler, tool.options);
+		}
+		for (const [uri, resource] of this.resources) {
+			if (server.hasResource(uri)) {
+				console.warn(`Connect MCP: extension resource "${uri}" conflicts with a built-in resource and was skipped`);
+				continue;
+			}
+			server.registerResource(resource.definition, resource.handler);
+		}
+		for (const prompt of this.prompts.values()) {
+			server.registerPrompt(prompt.definition, prompt.handler);
+		}
+	}
+
+	/**
+	 * Forget the server when it stops (called by the plugin, not by extensions)
+	 */
+	detach(): void {
+		this.server = null;
+	}
+}
@@ -0,0 +1,132 @@
+import { App, normalizePath } from "obsidian";
+import type { ToolPreview } from "../tools/types";
+import { ApprovalModal } from "./approval-modal";
+
+export interface ApprovalPolicy {
+	enabled: boolean;
+	/** Tools that need approval */
+	tools: string[];
+	/** Only ask for calls targeting these folders (empty = whole vault) */
+	folders: string[];
+	/** Seconds before an unanswered request is rejected */
+	timeoutSeconds: number;
+	/** Minutes a session stays trusted after "Approve and trust" */
+	trustMinutes: number;
+}
+
+/**
+ * A tool call waiting for the user's decision
+ */
+export interface ApprovalRequest {
+	sessionId: string;
+	keyName: string;
+	clientName: string | null;
+	tool: string;
+	args: Record<string, unknown>;
+	paths: string[];
+	/** Change the call would make (null if it cannot be previewed) */
+	preview: ToolPreview | null;
+	/** Aborted when the client cancels the call */
+	signal: AbortSignal;
+}
+
+export type ApprovalDecision = "approved" | "trusted" | "rejected" | "timeout" | "cancelled";
+
+/**
+ * Asks the user to confirm sensitive tool calls, one modal at a time
+ */
+export class ApprovalManager {
+	private app: App;
+	private policy: ApprovalPolicy;
+	/** Session ID -> time until which its calls are approved automatically */
+	private trustedSessions = new Map<string, number>();
+	private queue: Promise<unknown> = Promise.resolve();
+
+	constructor(app: App, policy: ApprovalPolicy) {
+		this.app = app;
+		this.policy = policy;
+	}
+
+	/**
+	 * Update the approval policy
+	 */
+	setPolicy(policy: ApprovalPolicy): void {
+		this.policy = policy;
+	}
+
+	/**
+	 * Whether a call to this tool with these target paths needs the user's approval
+	 */
+	requiresApproval(tool: string, paths: string[], sessionId: string): boolean {
+		if (!this.policy.enabled || !this.policy.tools.includes(tool)) {
+			return false;
+		}
+
+		const trustedUntil = this.trustedSessions.get(sessionId);
+		if (trustedUntil !== undefined) {
+			if (trustedUntil > Date.now()) return false;
+			this.trustedSessions.delete(sessionId);
+		}
+
+		// Calls without a target path (such as commands) are always confirmed
+		if (this.policy.folders.length === 0 || paths.length === 0) {
+			return true;
+		}
+
+		return paths.some((path) =>
+			this.policy.folders.some((folder) => {
+				const normalized = normalizePath(folder);
+				return path === normalized || path.startsWith(normalized + "/");
+			})
+		);
+	}
+
+	/**
+	 * Show the approval modal and wait for the user's decision
+	 */
+	request(request: ApprovalRequest): Promise<ApprovalDecision> {
+		const decision = this.queue.then(() => this.prompt(request));
+		this.queue = decision.catch(() => undefined);
+		return decision;
+	}
+
+	/**
+	 * Stop trusting a session (when it closes)
+	 */
+	revokeTrust(sessionId: string): void {
+		this.trustedSessions.delete(sessionId);
+	}
+
+	private prompt(request: ApprovalRequest): Promise<ApprovalDecision> {
+		if (request.signal.aborted) {
+			return Promise.resolve("cancelled");
+		}
+
+		// A previous request from this session may have granted trust while this one was queued
+		if (!this.requiresApproval(request.tool, request.paths, request.sessionId)) {
+			return Promise.resolve("trusted");
+		}
+
+		return new Promise((resolve) => {
+			const modal = new ApprovalModal(
+				this.app,
+				request,
+				this.policy.timeoutSeconds,
+				this.policy.trustMinutes,
+				(decision) => {
+					request.signal.removeEventListener("abort", onAbort);
+					if (decision === "trusted") {
+						this.trustedSessions.set(
+							request.sessionId,
+							Date.now() + this.policy.trustMinutes * 60 * 1000
+						);
+					}
+					resolve(decision);
+				}
+			);
+			const onAbort = () => modal.dismiss("cancelled");
+			request.signal.addEventListener("abort", onAbort);
+			modal.open();
+		});
+	}
+}
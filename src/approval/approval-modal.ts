@@ -0,0 +1,140 @@
+import { App, Modal, Setting } from "obsidian";
+import { DiffLine, diffLines, formatDiff } from "../utils/diff";
+import type { ApprovalDecision, ApprovalRequest } from "./approval-manager";
+
+// Maximum number of diff lines rendered in the preview
+const MAX_PREVIEW_LINES = 500;
+
+/**
+ * Build the diff shown for a previewed change
+ */
+function previewDiff(before: string | null, after: string | null): string {
+	let lines: DiffLine[];
+	if (before === null) {
+		lines = (after ?? "").split("\n").map((text) => ({ type: "add", text }));
+	} else if (after === null) {
+		lines = before.split("\n").map((text) => ({ type: "remove", text }));
+	} else {
+		lines = diffLines(before, after);
+	}
+	return formatDiff(lines);
+}
+
+/**
+ * Confirmation dialog for a tool call, with a diff of the change and a countdown
+ */
+export class ApprovalModal extends Modal {
+	private request: ApprovalRequest;
+	private timeoutSeconds: number;
+	private trustMinutes: number;
+	private onDecision: (decision: ApprovalDecision) => void;
+	private decision: ApprovalDecision | null = null;
+	private timer: number | null = null;
+
+	constructor(
+		app: App,
+		request: ApprovalRequest,
+		timeoutSeconds: number,
+		trustMinutes: number,
+		onDecision: (decision: ApprovalDecision) => void
+	) {
+		super(app);
+		this.request = request;
+		this.timeoutSeconds = timeoutSeconds;
+		this.trustMinutes = trustMinutes;
+		this.onDecision = onDecision;
+	}
+
+	/**
+	 * Close the modal with a decision
+	 */
+	dismiss(decision: ApprovalDecision): void {
+		this.decision ??= decision;
+		this.close();
+	}
+
+	onOpen(): void {
+		const { contentEl, request } = this;
+		this.setTitle("Approve MCP tool call?");
+		this.modalEl.addClass("connect-mcp-approval-modal");
+
+		const details = contentEl.createEl("table", { cls: "connect-mcp-table" });
+		const addRow = (label: string, value: string) => {
+			const row = details.createEl("tr");
+			row.createEl("th", { text: label });
+			row.createEl("td", { text: value });
+		};
+		addRow("Tool", request.tool);
+		addRow("Client", `${request.clientName ?? "Unknown client"} (${request.keyName})`);
+		if (request.paths.length > 0) {
+			addRow("Target", request.paths.join(", "));
+		}
+
+		if (request.preview) {
+			contentEl.createEl("h4", { text: request.preview.path });
+			const diffEl = contentEl.createEl("pre", { cls: "connect-mcp-diff" });
+			const lines = previewDiff(request.preview.before, request.preview.after).split("\n");
+			for (const line of lines.slice(0, MAX_PREVIEW_LINES)) {
+				const cls =
+					line.startsWith("+") ? "connect-mcp-diff-add"
+					: line.startsWith("-") ? "connect-mcp-diff-remove"
+					: line === "@@" ? "connect-mcp-diff-skip"
+					: "connect-mcp-diff-same";
+				diffEl.createDiv({ cls, text: line === "@@" ? "…" : line });
+			}
+			if (lines.length > MAX_PREVIEW_LINES) {
+				contentEl.createEl("p", {
+					text: `${lines.length - MAX_PREVIEW_LINES} more lines not shown.`,
+				});
+			}
+		} else {
+			contentEl.createEl("pre", {
+				cls: "connect-mcp-code-block",
+				text: JSON.stringify(request.args, null, 2),
+			});
+		}
+
+		const countdownEl = contentEl.createEl("p", { cls: "setting-item-description" });
+		let remaining = this.timeoutSeconds;
+		const updateCountdown = () => {
+			countdownEl.setText(`Rejected automatically in ${remaining} s.`);
+		};
+		if (this.timeoutSeconds > 0) {
+			updateCountdown();
+			this.timer = window.setInterval(() => {
+				remaining--;
+				if (remaining <= 0) {
+					this.dismiss("timeout");
+				} else {
+					updateCountdown();
+				}
+			}, 1000);
+		}
+
+		const buttons = new Setting(contentEl).addButton((button) =>
+			button.setButtonText("Reject").onClick(() => this.dismiss("rejected"))
+		);
+		if (this.trustMinutes > 0) {
+			buttons.addButton((button) =>
+				button
+					.setButtonText(`Approve and trust session for ${this.trustMinutes} min`)
+					.onClick(() => this.dismiss("trusted"))
+			);
+		}
+		buttons.addButton((button) =>
+			button
+				.setButtonText("Approve")
+				.setCta()
+				.onClick(() => this.dismiss("approved"))
+		);
+	}
+
+	onClose(): void {
+		if (this.timer !== null) {
+			window.clearInterval(this.timer);
+			this.timer = null;
+		}
+		this.contentEl.empty();
+		this.onDecision(this.decision ?? "rejected");
+	}
+}
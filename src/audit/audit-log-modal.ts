@@ -0,0 +1,109 @@
+import { App, Modal, Setting } from "obsidian";
+import { AuditEntry, AuditLog } from "./audit-log";
+
+// Maximum number of entries rendered at once
+const MAX_ROWS = 200;
+
+/**
+ * Browsable view of the audit log with tool and path filters
+ */
+export class AuditLogModal extends Modal {
+	private auditLog: AuditLog;
+	private entries: AuditEntry[] = [];
+	private toolFilter = "";
+	private pathFilter = "";
+	private resultsEl?: HTMLElement;
+
+	constructor(app: App, auditLog: AuditLog) {
+		super(app);
+		this.auditLog = auditLog;
+	}
+
+	async onOpen(): Promise<void> {
+		this.setTitle("MCP audit log");
+		this.modalEl.addClass("connect-mcp-audit-modal");
+
+		this.entries = (await this.auditLog.read()).reverse();
+		const tools = Array.from(new Set(this.entries.map((e) => e.tool))).sort();
+
+		new Setting(this.contentEl)
+			.setName("Tool")
+			.addDropdown((dropdown) => {
+				dropdown.addOption("", "All tools");
+				for (const tool of tools) {
+					dropdown.addOption(tool, tool);
+				}
+				dropdown.onChange((value) => {
+					this.toolFilter = value;
+					this.renderEntries();
+				});
+			});
+
+		new Setting(this.contentEl)
+			.setName("Path")
+			.addText((text) =>
+				text.setPlaceholder("Path contains…").onChange((value) => {
+					this.pathFilter = value.toLowerCase();
+					this.renderEntries();
+				})
+			);
+
+		this.resultsEl = this.contentEl.createDiv();
+		this.renderEntries();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderEntries(): void {
+		if (!this.resultsEl) return;
+		this.resultsEl.empty();
+
+		const filtered = this.entries.filter((entry) => {
+			if (this.toolFilter && entry.tool !== this.toolFilter) return false;
+			if (
+				this.pathFilter &&
+				!entry.paths.some((path) => path.toLowerCase().includes(this.pathFilter))
+			) {
+				return false;
+			}
+			return true;
+		});
+
+		this.resultsEl.createEl("p", {
+			text:
+				filtered.length > MAX_ROWS
+					? `Showing the latest ${MAX_ROWS} of ${filtered.length} entries.`
+					: `${filtered.length} entries.`,
+		});
+
+		if (filtered.length === 0) return;
+
+		const table = this.resultsEl.createEl("table", { cls: "connect-mcp-table" });
+		const headerRow = table.createEl("thead").createEl("tr");
+		for (const header of ["Time", "Tool", "Paths", "Key / client", "Result", "Duration"]) {
+			headerRow.createEl("th", { text: header });
+		}
+
+		const body = table.createEl("tbody");
+		for (const entry of filtered.slice(0, MAX_ROWS)) {
+			const row = body.createEl("tr");
+			row.createEl("td", { text: new Date(entry.timestamp).toLocaleString() });
+			row.createEl("td", {
+				text: entry.tool,
+				attr: { title: JSON.stringify(entry.args, null, 2) },
+			});
+			row.createEl("td", { text: entry.paths.join(", ") });
+			row.createEl("td", {
+				text: `${entry.keyName} / ${entry.clientName ?? "unknown"}`,
+				attr: { title: entry.sessionId },
+			});
+			row.createEl("td", {
+				text: entry.success ? "OK" : "Error",
+				attr: entry.error ? { title: entry.error } : {},
+			});
+			row.createEl("td", { text: `${entry.durationMs} ms` });
+		}
+	}
+}
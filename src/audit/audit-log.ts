@@ -0,0 +1,209 @@
+import { App, TFile, normalizePath } from "obsidian";
+
+/**
+ * A single recorded tool call
+ */
+export interface AuditEntry {
+	timestamp: string;
+	sessionId: string;
+	keyName: string;
+	clientName: string | null;
+	tool: string;
+	args: Record<string, unknown>;
+	paths: string[];
+	success: boolean;
+	error?: string;
+	durationMs: number;
+}
+
+export interface AuditLogOptions {
+	enabled: boolean;
+	/** Days to keep entries (0 = keep forever) */
+	retentionDays: number;
+	/** Vault note that mirrors the log (empty = disabled) */
+	mirrorNotePath: string;
+}
+
+// String arguments longer than this are truncated in the log
+const MAX_ARG_LENGTH = 200;
+// Old entries are pruned again after this many appends or this long, whichever comes first
+const PRUNE_EVERY_APPENDS = 500;
+const PRUNE_EVERY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Truncate long string values (note bodies, replacement text) for logging
+ */
+function truncateArgs(args: Record<string, unknown>): Record<string, unknown> {
+	const truncated: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(args)) {
+		if (typeof value === "string" && value.length > MAX_ARG_LENGTH) {
+			truncated[key] = `${value.slice(0, MAX_ARG_LENGTH)}… (${value.length} chars)`;
+		} else {
+			truncated[key] = value;
+		}
+	}
+	return truncated;
+}
+
+/**
+ * Collect the vault paths a tool call targets (any string argument named path or *Path)
+ */
+export function extractPaths(args: Record<string, unknown>): string[] {
+	const paths: string[] = [];
+	for (const [key, value] of Object.entries(args)) {
+		if (typeof value === "string" && value && /(^p|P)ath$/.test(key)) {
+			paths.push(normalizePath(value));
+		}
+	}
+	return paths;
+}
+
+/**
+ * Append-only JSONL log of tool calls, stored in the plugin folder
+ */
+export class AuditLog {
+	private app: App;
+	private logPath: string;
+	private options: AuditLogOptions;
+	private writeQueue: Promise<void> = Promise.resolve();
+	private appendsSincePrune = 0;
+	private lastPrunedAt = Date.now();
+
+	constructor(app: App, logPath: string, options: AuditLogOptions) {
+		this.app = app;
+		this.logPath = normalizePath(logPath);
+		this.options = options;
+	}
+
+	/**
+	 * Update logging options
+	 */
+	setOptions(options: AuditLogOptions): void {
+		this.options = options;
+	}
+
+	/**
+	 * Record a tool call
+	 */
+	record(entry: Omit<AuditEntry, "paths">): void {
+		if (!this.options.enabled) return;
+
+		const fullEntry: AuditEntry = {
+			...entry,
+			args: truncateArgs(entry.args),
+			paths: extractPaths(entry.args),
+		};
+
+		this.enqueue(async () => {
+			const line = JSON.stringify(fullEntry) + "\n";
+			const adapter = this.app.vault.adapter;
+			if (await adapter.exists(this.logPath)) {
+				await adapter.append(this.logPath, line);
+			} else {
+				await adapter.write(this.logPath, line);
+			}
+
+			if (this.options.mirrorNotePath) {
+				await this.appendToMirrorNote(fullEntry);
+			}
+		});
+
+		// Keep the log within the retention period while Obsidian stays open
+		this.appendsSincePrune++;
+		if (this.appendsSincePrune >= PRUNE_EVERY_APPENDS || Date.now() - this.lastPrunedAt >= PRUNE_EVERY_MS) {
+			void this.prune();
+		}
+	}
+
+	/**
+	 * Read all entries, oldest first
+	 */
+	async read(): Promise<AuditEntry[]> {
+		await this.writeQueue;
+
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.logPath))) {
+			return [];
+		}
+
+		const content = await adapter.read(this.logPath);
+		const entries: AuditEntry[] = [];
+		for (const line of content.split("\n")) {
+			if (!line.trim()) continue;
+			try {
+				entries.push(JSON.parse(line) as AuditEntry);
+			} catch {
+				// Skip corrupted lines
+			}
+		}
+		return entries;
+	}
+
+	/**
+	 * Drop entries older than the retention period
+	 */
+	prune(): Promise<void> {
+		this.appendsSincePrune = 0;
+		this.lastPrunedAt = Date.now();
+		if (this.options.retentionDays <= 0) return this.writeQueue;
+
+		const cutoff = Date.now() - this.options.retentionDays * 24 * 60 * 60 * 1000;
+		this.enqueue(async () => {
+			const adapter = this.app.vault.adapter;
+			if (!(await adapter.exists(this.logPath))) return;
+
+			await adapter.process(this.logPath, (content) =>
+				content
+					.split("\n")
+					.filter((line) => {
+						if (!line.trim()) return false;
+						try {
+							const entry = JSON.parse(line) as AuditEntry;
+							return new Date(entry.timestamp).getTime() >= cutoff;
+						} catch {
+							return false;
+						}
+					})
+					.map((line) => line + "\n")
+					.join("")
+			);
+		});
+		return this.writeQueue;
+	}
+
+	/**
+	 * Delete all entries
+	 */
+	clear(): Promise<void> {
+		this.enqueue(async () => {
+			const adapter = this.app.vault.adapter;
+			if (await adapter.exists(this.logPath)) {
+				await adapter.remove(this.logPath);
+			}
+		});
+		return this.writeQueue;
+	}
+
+	/**
+	 * Serialize writes so appends never interleave
+	 */
+	private enqueue(task: () => Promise<void>): void {
+		this.writeQueue = this.writeQueue.then(task).catch((error) => {
+			console.warn("Audit log write failed:", error);
+		});
+	}
+
+	private async appendToMirrorNote(entry: AuditEntry): Promise<void> {
+		const notePath = normalizePath(this.options.mirrorNotePath);
+		const status = entry.success ? "ok" : `error: ${(entry.error ?? "unknown").replace(/\s+/g, " ")}`;
+		const target = entry.paths.length > 0 ? ` \`${entry.paths.join("`, `")}\`` : "";
+		const line = `- ${entry.timestamp} **${entry.tool}**${target} (${entry.keyName}, ${entry.clientName ?? "unknown client"}) - ${status}, ${entry.durationMs} ms\n`;
+
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		if (file instanceof TFile) {
+			await this.app.vault.append(file, line);
+		} else if (!file) {
+			await this.app.vault.create(notePath, `# MCP audit log\n\n${line}`);
+		}
+	}
+}
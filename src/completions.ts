@@ -0,0 +1,179 @@
+import { App, TFile, TFolder, getAllTags } from "obsidian";
+import { getAppInternals } from "./obsidian-internals";
+import type { SecurityManager } from "./security/security-manager";
+
+// Maximum number of values returned per completion request (MCP limit)
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Reference being completed: a prompt or a resource template
+ */
+export type CompletionRef = { type: "ref/prompt"; name: string } | { type: "ref/resource"; uri: string };
+
+export interface CompletionResult {
+	values: string[];
+	total: number;
+	hasMore: boolean;
+}
+
+/**
+ * Kinds of values that can be suggested, selected by argument name
+ * or by the `completion` field of a prompt argument
+ */
+type CompletionKind = "note" | "folder" | "tag" | "heading" | "frontmatter" | "command" | "prompt";
+
+const ARGUMENT_KINDS: Record<string, CompletionKind> = {
+	path: "note",
+	note: "note",
+	file: "note",
+	folder: "folder",
+	tag: "tag",
+	heading: "heading",
+	target: "heading",
+	field: "frontmatter",
+	key: "frontmatter",
+	property: "frontmatter",
+	commandid: "command",
+	command: "command",
+	prompt: "prompt",
+};
+
+/**
+ * Rank candidates: prefix matches first, then substring matches (case-insensitive)
+ */
+function rank(candidates: Iterable<string>, value: string): CompletionResult {
+	const needle = value.toLowerCase();
+	const prefix: string[] = [];
+	const contains: string[] = [];
+
+	for (const candidate of new Set(candidates)) {
+		const haystack = candidate.toLowerCase();
+		if (haystack.startsWith(needle)) {
+			prefix.push(candidate);
+		} else if (haystack.includes(needle)) {
+			contains.push(candidate);
+		}
+	}
+
+	const matches = [...prefix.sort(), ...contains.sort()];
+	return {
+		values: matches.slice(0, MAX_COMPLETIONS),
+		total: matches.length,
+		hasMore: matches.length > MAX_COMPLETIONS,
+	};
+}
+
+/**
+ * Create the completion/complete handler
+ * @param commandsEnabled Whether command execution is allowed in settings (command IDs are only suggested then)
+ */
+export function createCompletionProvider(
+	app: App,
+	commandsEnabled: () => boolean,
+	prompts: {
+		listPrompts: () => Array<{ name: string }>;
+		getArgumentCompletion: (name: string, argument: string) => string | undefined;
+	}
+): (
+	ref: CompletionRef,
+	argument: { name: string; value: string },
+	context: Record<string, string>,
+	security: SecurityManager
+) => CompletionResult {
+	const notePaths = (security: SecurityManager): string[] =>
+		app.vault
+			.getMarkdownFiles()
+			.map((f) => f.path)
+			.filter((path) => security.isAccessible(path));
+
+	const folderPaths = (security: SecurityManager): string[] =>
+		app.vault
+			.getAllLoadedFiles()
+			.filter((f): f is TFolder => f instanceof TFolder && !f.isRoot())
+			.map((f) => f.path)
+			.filter((path) => security.isAccessible(path));
+
+	const tags = (security: SecurityManager): string[] => {
+		const result: string[] = [];
+		for (const file of app.vault.getMarkdownFiles()) {
+			if (!security.isAccessible(file.path)) continue;
+			const cache = app.metadataCache.getFileCache(file);
+			for (const tag of cache ? getAllTags(cache) ?? [] : []) {
+				result.push(tag.replace(/^#/, ""));
+			}
+		}
+		return result;
+	};
+
+	// Heading paths in the "Section::Subsection" form used by vault_patch
+	const headings = (path: string | undefined, security: SecurityManager): string[] => {
+		if (!path || !security.isAccessible(path)) return [];
+		const file = app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) return [];
+
+		const result: string[] = [];
+		const stack: Array<{ level: number; text: string }> = [];
+		for (const heading of app.metadataCache.getFileCache(file)?.headings ?? []) {
+			while (stack.length > 0 && stack[stack.length - 1]!.level >= heading.level) {
+				stack.pop();
+			}
+			stack.push({ level: heading.level, text: heading.heading });
+			result.push(stack.map((h) => h.text).join("::"));
+		}
+		return result;
+	};
+
+	// Frontmatter keys of one note, or of every accessible note if no path is given
+	const frontmatterKeys = (path: string | undefined, security: SecurityManager): string[] => {
+		const files = path
+			? [app.vault.getAbstractFileByPath(path)].filter((f): f is TFile => f instanceof TFile)
+			: app.vault.getMarkdownFiles();
+
+		const result: string[] = [];
+		for (const file of files) {
+			if (!security.isAccessible(file.path)) continue;
+			result.push(...Object.keys(app.metadataCache.getFileCache(file)?.frontmatter ?? {}));
+		}
+		return result;
+	};
+
+	const commandIds = (security: SecurityManager): string[] =>
+		commandsEnabled() && security.canUseCommands
+			? getAppInternals(app).commands.listCommands().map((cmd) => cmd.id)
+			: [];
+
+	return (ref, argument, context, security) => {
+		let kind: CompletionKind | undefined;
+		if (ref.type === "ref/prompt") {
+			const declared = prompts.getArgumentCompletion(ref.name, argument.name);
+			kind = (declared as CompletionKind | undefined) ?? ARGUMENT_KINDS[argument.name.toLowerCase()];
+		} else if (ref.uri.startsWith("obsidian://folder/")) {
+			kind = "folder";
+		} else {
+			kind = ARGUMENT_KINDS[argument.name.toLowerCase()];
+		}
+
+		const notePath = context.path ?? context.note ?? context.file;
+		switch (kind) {
+			case "note":
+				return rank(notePaths(security), argument.value);
+			case "folder":
+				return rank(folderPaths(security), argument.value);
+			case "tag":
+				return rank(tags(security), argument.value.replace(/^#/, ""));
+			case "heading":
+				return rank(headings(notePath, security), argument.value);
+			case "frontmatter":
+				return rank(frontmatterKeys(notePath, security), argument.value);
+			case "command":
+				return rank(commandIds(security), argument.value);
+			case "prompt":
+				return rank(
+					prompts.listPrompts().map((p) => p.name),
+					argument.value
+				);
+			default:
+				return { values: [], total: 0, hasMore: false };
+		}
+	};
+}
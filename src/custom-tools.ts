@@ -0,0 +1,399 @@
+import { App, EventRef, TAbstractFile, TFile, debounce, normalizePath } from "obsidian";
+import { ToolError, ToolErrorCode } from "./errors";
+import { isDataviewEnabled, isMetadataCacheResolved } from "./obsidian-internals";
+import { PAGE_PROPERTIES } from "./tools/pagination";
+import { errorResult, jsonResult, resultText } from "./tools/tool-result";
+import type { ToolContext, ToolDefinition, ToolHandler, ToolOptions, ToolResult } from "./tools/types";
+
+/**
+ * How a custom tool note is executed:
+ * - query: the body is a DQL query run through dataview_query
+ * - template: the body is a note template created through vault_create at `path`
+ * - sequence: the body is a JSON list of { tool, arguments } steps
+ */
+type CustomToolKind = "query" | "template" | "sequence";
+
+interface CustomToolStep {
+	tool: string;
+	arguments: Record<string, unknown>;
+}
+
+interface ParameterSchema {
+	type: "object";
+	properties: Record<string, { type?: string | string[]; default?: unknown }>;
+	required?: string[];
+}
+
+/**
+ * Registration target (implemented by McpHttpServer)
+ */
+interface ToolRegistry {
+	registerTool(definition: ToolDefinition, handler: ToolHandler, options?: ToolOptions): void;
+	unregisterTool(name: string): void;
+	hasTool(name: string): boolean;
+}
+
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/**
+ * Read the `parameters` frontmatter field: a JSON schema (object or JSON string),
+ * or a bare map of property schemas
+ */
+function readParameters(value: unknown): ParameterSchema {
+	let parsed = value;
+	if (typeof parsed === "string") {
+		parsed = JSON.parse(parsed) as unknown;
+	}
+	if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+		return { type: "object", properties: {} };
+	}
+
+	const schema = parsed as Record<string, unknown>;
+	if (schema.properties && typeof schema.properties === "object") {
+		return {
+			type: "object",
+			properties: schema.properties as ParameterSchema["properties"],
+			required: Array.isArray(schema.required) ? (schema.required as string[]) : undefined,
+		};
+	}
+	return { type: "object", properties: schema as ParameterSchema["properties"] };
+}
+
+/**
+ * Return the first fenced code block of the given languages, or the whole text
+ */
+function extractCodeBlock(body: string, languages: string[]): string {
+	for (const match of body.matchAll(/```(\w*)[^\n]*\n([\s\S]*?)```/g)) {
+		if (languages.includes((match[1] ?? "").toLowerCase())) {
+			return (match[2] ?? "").trim();
+		}
+	}
+	return body.trim();
+}
+
+/**
+ * Format a value as a DQL literal so arguments cannot change the query structure
+ */
+function dqlLiteral(value: unknown): string {
+	if (value === undefined || value === null) return "null";
+	if (typeof value === "number" || typeof value === "boolean") return String(value);
+	if (Array.isArray(value)) return `[${value.map(dqlLiteral).join(", ")}]`;
+	return JSON.stringify(typeof value === "string" ? value : JSON.stringify(value));
+}
+
+function textValue(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Replace {{name}} placeholders of declared parameters
+ */
+function substitute(
+	text: string,
+	args: Record<string, unknown>,
+	declared: Set<string>,
+	format: (value: unknown) => string
+): string {
+	return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+		declared.has(name) ? format(args[name]) : placeholder
+	);
+}
+
+/**
+ * Substitute placeholders inside parsed step arguments. A string that is exactly
+ * one placeholder takes the argument value with its type; other strings are interpolated.
+ */
+function substituteValue(value: unknown, args: Record<string, unknown>, declared: Set<string>): unknown {
+	if (typeof value === "string") {
+		const exact = value.match(/^\{\{\s*([A-Za-z0-9_]+)\s*\}\}$/);
+		if (exact?.[1] && declared.has(exact[1])) {
+			return args[exact[1]];
+		}
+		return substitute(value, args, declared, textValue);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => substituteValue(item, args, declared));
+	}
+	if (value && typeof value === "object") {
+		const result: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) {
+			const substituted = substituteValue(item, args, declared);
+			if (substituted !== undefined) {
+				result[key] = substituted;
+			}
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * Read the { code, message } of a failed tool result
+ */
+function readError(result: ToolResult): { code: ToolErrorCode; message: string } {
+	const text = resultText(result);
+	try {
+		const parsed = JSON.parse(text) as { error?: { code?: ToolErrorCode; message?: string } };
+		if (parsed.error?.code) {
+			return { code: parsed.error.code, message: parsed.error.message ?? text };
+		}
+	} catch {
+		// Not a coded error
+	}
+	return { code: "INTERNAL_ERROR", message: text };
+}
+
+/**
+ * Registers MCP tools defined by notes in a folder and keeps them in sync with the notes
+ */
+export class CustomToolsManager {
+	private app: App;
+	private folder: string;
+	private registry: ToolRegistry;
+	private registered = new Set<string>();
+	private eventRefs: Array<{ source: "vault" | "metadataCache"; ref: EventRef }> = [];
+	private loading: Promise<void> = Promise.resolve();
+	private active = false;
+	private scheduleReload = debounce(() => void this.load(), 500, true);
+
+	constructor(app: App, folder: string, registry: ToolRegistry) {
+		this.app = app;
+		this.folder = normalizePath(folder);
+		this.registry = registry;
+	}
+
+	/**
+	 * Register the tools and start watching the folder.
+	 * Before the metadata cache has indexed the vault, the tools are registered once it has.
+	 */
+	async start(): Promise<void> {
+		this.active = true;
+		const onChange = (file: TAbstractFile, oldPath?: string) => {
+			if (this.isInFolder(file.path) || (oldPath && this.isInFolder(oldPath))) {
+				this.scheduleReload();
+			}
+		};
+		this.eventRefs.push(
+			{ source: "metadataCache", ref: this.app.metadataCache.on("changed", (file) => onChange(file)) },
+			{ source: "vault", ref: this.app.vault.on("delete", (file) => onChange(file)) },
+			{ source: "vault", ref: this.app.vault.on("rename", (file, oldPath) => onChange(file, oldPath)) }
+		);
+
+		// Tool notes are declared in frontmatter, which is missing until the cache is resolved
+		if (!isMetadataCacheResolved(this.app)) {
+			const ref = this.app.metadataCache.on("resolved", () => {
+				this.app.metadataCache.offref(ref);
+				void this.load();
+			});
+			this.eventRefs.push({ source: "metadataCache", ref });
+			return;
+		}
+		await this.load();
+	}
+
+	/**
+	 * Stop watching and remove all custom tools
+	 */
+	stop(): void {
+		this.active = false;
+		this.scheduleReload.cancel();
+		for (const { source, ref } of this.eventRefs) {
+			if (source === "vault") {
+				this.app.vault.offref(ref);
+			} else {
+				this.app.metadataCache.offref(ref);
+			}
+		}
+		this.eventRefs = [];
+		this.unregisterAll();
+	}
+
+	/**
+	 * Switch to another folder and reload
+	 */
+	async setFolder(folder: string): Promise<void> {
+		this.folder = normalizePath(folder);
+		await this.load();
+	}
+
+	/**
+	 * Re-read every tool note and re-register the tools (reloads never overlap)
+	 */
+	load(): Promise<void> {
+		this.loading = this.loading.then(() => this.loadAll());
+		return this.loading;
+	}
+
+	private async loadAll(): Promise<void> {
+		this.unregisterAll();
+		if (!this.active) return;
+
+		const files = this.app.vault
+			.getMarkdownFiles()
+			.filter((f) => this.isInFolder(f.path))
+			.sort((a, b) => a.path.localeCompare(b.path));
+
+		for (const file of files) {
+			try {
+				await this.loadTool(file);
+				if (!this.active) {
+					this.unregisterAll();
+					return;
+				}
+			} catch (error) {
+				console.warn(`Connect MCP: invalid custom tool ${file.path}:`, error);
+			}
+		}
+	}
+
+	private isInFolder(path: string): boolean {
+		return path.startsWith(this.folder + "/") && path.endsWith(".md");
+	}
+
+	private unregisterAll(): void {
+		for (const name of this.registered) {
+			this.registry.unregisterTool(name);
+		}
+		this.registered.clear();
+	}
+
+	private async loadTool(file: TFile): Promise<void> {
+		const cache = this.app.metadataCache.getFileCache(file);
+		const frontmatter = cache?.frontmatter;
+		const kind = frontmatter?.type as CustomToolKind | undefined;
+		if (kind !== "query" && kind !== "template" && kind !== "sequence") {
+			// Not a tool note
+			return;
+		}
+
+		const name = typeof frontmatter?.name === "string" ? frontmatter.name : file.basename;
+		if (!TOOL_NAME_PATTERN.test(name)) {
+			throw new Error(`Invalid tool name "${name}" (letters, digits, _ and - only)`);
+		}
+		if (this.registered.has(name) || this.registry.hasTool(name)) {
+			throw new Error(`Tool name "${name}" is already in use`);
+		}
+
+		const content = await this.app.vault.cachedRead(file);
+		const body = cache?.frontmatterPosition
+			? content.slice(cache.frontmatterPosition.end.offset)
+			: content;
+		const parameters = readParameters(frontmatter?.parameters);
+		const declared = new Set(Object.keys(parameters.properties));
+		const description =
+			typeof frontmatter?.description === "string"
+				? frontmatter.description
+				: `Custom tool defined in ${file.path}`;
+
+		const withDefaults = (args: Record<string, unknown>): Record<string, unknown> => {
+			const result = { ...args };
+			for (const [param, schema] of Object.entries(parameters.properties)) {
+				if (result[param] === undefined && schema.default !== undefined) {
+					result[param] = schema.default;
+				}
+			}
+			return result;
+		};
+
+		let handler: ToolHandler;
+		let options: ToolOptions = {};
+		let readOnly = false;
+		let inputSchema: ParameterSchema = parameters;
+
+		if (kind === "query") {
+			const query = extractCodeBlock(body, ["dataview", "dql"]);
+			readOnly = true;
+			options = { isAvailable: (security) => security.canRead && isDataviewEnabled(this.app) };
+			// Long results are paged like dataview_query itself
+			inputSchema = { ...parameters, properties: { ...parameters.properties, ...PAGE_PROPERTIES } };
+			handler = (args, { callTool }) =>
+				callTool("dataview_query", {
+					query: substitute(query, withDefaults(args), declared, dqlLiteral),
+					...(args.cursor !== undefined && { cursor: args.cursor }),
+					...(args.maxChars !== undefined && { maxChars: args.maxChars }),
+				});
+		} else if (kind === "template") {
+			const pathTemplate = frontmatter?.path;
+			if (typeof pathTemplate !== "string" || !pathTemplate) {
+				throw new Error("Template tools need a `path` frontmatter field");
+			}
+			const template = body.replace(/^\n+/, "");
+			options = { isAvailable: (security) => security.canWrite };
+			handler = async (args, { callTool }) => {
+				const values = withDefaults(args);
+				const path = substitute(pathTemplate, values, declared, textValue);
+				if (path.split("/").some((segment) => segment === "..")) {
+					return errorResult(new ToolError("INVALID_ARGUMENT", `Invalid note path: ${path}`));
+				}
+				return callTool("vault_create", {
+					path,
+					content: substitute(template, values, declared, textValue),
+				});
+			};
+		} else {
+			const steps = JSON.parse(extractCodeBlock(body, ["json"])) as CustomToolStep[];
+			if (
+				!Array.isArray(steps) ||
+				steps.some((step) => typeof step?.tool !== "string" || step.tool === name)
+			) {
+				throw new Error("Sequence tools need a JSON list of { tool, arguments } steps");
+			}
+			handler = (args, context) => this.runSequence(steps, withDefaults(args), declared, context);
+		}
+
+		this.registry.registerTool(
+			{
+				name,
+				description,
+				inputSchema,
+				annotations: {
+					title: name,
+					readOnlyHint: readOnly,
+					destructiveHint: kind === "template" ? false : undefined,
+					openWorldHint: false,
+				},
+			},
+			handler,
+			options
+		);
+		this.registered.add(name);
+	}
+
+	private async runSequence(
+		steps: CustomToolStep[],
+		args: Record<string, unknown>,
+		declared: Set<string>,
+		{ signal, callTool, reportProgress }: ToolContext
+	): Promise<ToolResult> {
+		const results: Array<{ tool: string; result: unknown }> = [];
+
+		for (const [index, step] of steps.entries()) {
+			if (signal.aborted) {
+				return errorResult(new ToolError("CANCELLED", `Cancelled before step ${index + 1}`));
+			}
+			await reportProgress(index, steps.length, `Running ${step.tool}`);
+
+			const stepArgs = substituteValue(step.arguments ?? {}, args, declared) as Record<string, unknown>;
+			const result = await callTool(step.tool, stepArgs);
+			if (result.isError) {
+				const { code, message } = readError(result);
+				return errorResult(
+					new ToolError(code, `Step ${index + 1} (${step.tool}) failed: ${message}`, {
+						step: index + 1,
+						completed: results,
+					})
+				);
+			}
+
+			results.push({
+				tool: step.tool,
+				result: result.structuredContent ?? resultText(result),
+			});
+		}
+
+		await reportProgress(steps.length, steps.length, "Done");
+		return jsonResult({ steps: results });
+	}
+}
@@ -0,0 +1,29 @@
+/**
+ * Machine-readable error kinds returned to agents
+ */
+export type ToolErrorCode =
+	| "INVALID_ARGUMENT"
+	| "NOT_FOUND"
+	| "ACCESS_DENIED"
+	| "READ_ONLY"
+	| "CONFLICT"
+	| "TOO_LARGE"
+	| "UNAVAILABLE"
+	| "CANCELLED"
+	| "INTERNAL_ERROR";
+
+/**
+ * Error with a code that agents can branch on
+ */
+export class ToolError extends Error {
+	readonly code: ToolErrorCode;
+	/** Extra information for the agent (such as the offending argument) */
+	readonly details?: Record<string, unknown>;
+
+	constructor(code: ToolErrorCode, message: string, details?: Record<string, unknown>) {
+		super(message);
+		this.name = "ToolError";
+		this.code = code;
+		this.details = details;
+	}
+}
@@ -1,7 +1,10 @@
-import { Notice, Plugin } from "obsidian";
-import { McpHttpServer } from "./mcp-server";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileSystemAdapter, Notice, Platform, Plugin, normalizePath } from "obsidian";
+import { McpHttpServer, SessionInfo } from "./mcp-server";
 import { DataviewMcpSettings, DEFAULT_SETTINGS, DataviewMcpSettingTab } from "./settings";
 import { registerVaultTools } from "./tools/vault-tools";
+import { registerFolderTools } from "./tools/folder-tools";
 import { registerEditTools } from "./tools/edit-tools";
 import { registerGraphTools } from "./tools/graph-tools";
 import { registerDataviewTools } from "./tools/dataview-tools";
@@ -9,14 +12,59 @@ import { registerActiveTools } from "./tools/active-tools";
 import { registerCommandTools } from "./tools/command-tools";
 import { registerResources } from "./resources";
 import { createPromptsHandlers } from "./prompts";
+import { createCompletionProvider } from "./completions";
+import { isDataviewEnabled } from "./obsidian-internals";
+import { AuditLog, AuditLogOptions } from "./audit/audit-log";
+import { AuditLogModal } from "./audit/audit-log-modal";
+import { ApprovalManager, ApprovalPolicy } from "./approval/approval-manager";
+import { ConnectMcpApi, SERVER_STARTED_EVENT, SERVER_STOPPED_EVENT } from "./api";
+import { CustomToolsManager } from "./custom-tools";
+import {
+	TlsCredentials,
+	generateCertificate,
+	loadCustomCertificate,
+	loadGeneratedCertificate,
+} from "./security/tls";
+import { isLoopbackAddress } from "./security/network";
+import { RateLimitPolicy, RateLimiter } from "./security/rate-limiter";
+import { ObsidianOAuthProvider } from "./oauth/oauth-provider";
 
 export default class DataviewMcpPlugin extends Plugin {
 	settings: DataviewMcpSettings = DEFAULT_SETTINGS;
+	auditLog!: AuditLog;
+	approvals!: ApprovalManager;
+	rateLimits!: RateLimiter;
+	oauth!: ObsidianOAuthProvider;
+	/** Extension API for other plugins */
+	readonly api = new ConnectMcpApi();
 	private mcpServer: McpHttpServer | null = null;
+	private customTools: CustomToolsManager | null = null;
+	/** Certificate of the running HTTPS server */
+	private tlsCredentials: TlsCredentials | null = null;
+	private dataviewEnabled = false;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
 
+		this.auditLog = new AuditLog(
+			this.app,
+			`${this.manifest.dir ?? ""}/audit.jsonl`,
+			this.getAuditLogOptions()
+		);
+		void this.auditLog.prune();
+
+		this.approvals = new ApprovalManager(this.app, this.getApprovalPolicy());
+		this.rateLimits = new RateLimiter(this.getRateLimitPolicy());
+		this.oauth = new ObsidianOAuthProvider(
+			this.app,
+			{
+				clients: () => this.settings.oauthClients,
+				grants: () => this.settings.oauthGrants,
+				save: () => this.saveSettings(),
+			},
+			(grantId) => this.mcpServer?.closeSessionsForKey(`oauth:${grantId}`)
+		);
+
 		this.addSettingTab(new DataviewMcpSettingTab(this.app, this));
 
 		this.addCommand({
@@ -27,6 +75,14 @@ export default class DataviewMcpPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "open-audit-log",
+			name: "Open audit log",
+			callback: (): void => {
+				this.openAuditLog();
+			},
+		});
+
 		this.addCommand({
 			id: "stop-server",
 			name: "Stop server",
@@ -35,7 +91,18 @@ export default class DataviewMcpPlugin extends Plugin {
 			},
 		});
 
-		if (this.settings.autoStart && this.settings.apiKey) {
+		// Dataview has no enable/disable event, so poll for changes to its availability
+		this.registerInterval(
+			window.setInterval(() => {
+				const enabled = isDataviewEnabled(this.app);
+				if (enabled !== this.dataviewEnabled) {
+					this.dataviewEnabled = enabled;
+					this.refreshTools();
+				}
+			}, 5000)
+		);
+
+		if (this.settings.autoStart && this.hasApiKey()) {
 			// Delay start to ensure other plugins (like Dataview) are loaded
 			setTimeout(() => {
 				void this.startServer();
@@ -53,6 +120,14 @@ export default class DataviewMcpPlugin extends Plugin {
 			DEFAULT_SETTINGS,
 			(await this.loadData()) as Partial<DataviewMcpSettings>
 		);
+		// Copy so edits never mutate DEFAULT_SETTINGS
+		this.settings.apiKeys = [...this.settings.apiKeys];
+		this.settings.approvalTools = [...this.settings.approvalTools];
+		this.settings.approvalFolders = [...this.settings.approvalFolders];
+		this.settings.allowedOrigins = [...this.settings.allowedOrigins];
+		this.settings.allowedIps = [...this.settings.allowedIps];
+		this.settings.oauthClients = [...this.settings.oauthClients];
+		this.settings.oauthGrants = [...this.settings.oauthGrants];
 	}
 
 	async saveSettings(): Promise<void> {
@@ -65,25 +140,73 @@ export default class DataviewMcpPlugin extends Plugin {
 			return;
 		}
 
-		if (!this.settings.apiKey) {
+		if (!this.hasApiKey()) {
 			new Notice("Please set an API key in plugin settings");
 			return;
 		}
 
+		const tcpEnabled = this.settings.listenMode !== "socket";
+		const socketEnabled = this.settings.listenMode !== "tcp";
+		if (socketEnabled && Platform.isWin) {
+			new Notice("Unix domain sockets are not supported on Windows");
+			return;
+		}
+
+		this.tlsCredentials = null;
+		if (tcpEnabled && this.settings.httpsEnabled) {
+			try {
+				this.tlsCredentials =
+					this.settings.httpsCertSource === "custom"
+						? await loadCustomCertificate(this.settings.httpsCertPath, this.settings.httpsKeyPath)
+						: await loadGeneratedCertificate(this.app, this.getTlsDir());
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				new Notice(`Failed to load HTTPS certificate: ${message}`);
+				return;
+			}
+		}
+
 		this.mcpServer = new McpHttpServer(this.app, this, {
 			port: this.settings.port,
+			host: this.settings.bindAddress,
+			allowedOrigins: this.settings.allowedOrigins,
+			allowedIps: this.settings.allowedIps,
 			apiKey: this.settings.apiKey,
+			apiKeys: this.settings.apiKeys,
+			sessionIdleTimeout: this.settings.sessionIdleTimeout,
+			maxSessions: this.settings.maxSessions,
+			tls: this.tlsCredentials ?? undefined,
+			tcpEnabled,
+			socketPath: socketEnabled ? this.getSocketPath() : undefined,
+			oauth: this.settings.oauthEnabled ? this.oauth : undefined,
 		});
 
-		// Register tools, resources, and prompts
+		// Register tools, resources, and prompts, then those added by other plugins and tool notes
 		this.registerCapabilities();
+		this.api.attach(this.mcpServer);
+		this.customTools = new CustomToolsManager(this.app, this.settings.toolsFolder, this.mcpServer);
+		await this.customTools.start();
 
 		try {
 			await this.mcpServer.start();
-			new Notice(`MCP server started on port ${this.settings.port}`);
+			const listeners = [
+				tcpEnabled ? `port ${this.settings.port}` : null,
+				socketEnabled ? this.getSocketPath() : null,
+			].filter((l) => l !== null);
+			new Notice(`MCP server started on ${listeners.join(" and ")}`);
+			if (tcpEnabled && !isLoopbackAddress(this.settings.bindAddress)) {
+				new Notice(
+					`Warning: MCP server is listening on ${this.settings.bindAddress} and can be reached from other machines`,
+					10000
+				);
+			}
+			this.app.workspace.trigger(SERVER_STARTED_EVENT, this.api);
 		} catch (error) {
 			const message = error instanceof Error ? error.message : String(error);
 			new Notice(`Failed to start MCP server: ${message}`);
+			this.customTools.stop();
+			this.customTools = null;
+			this.api.detach();
 			this.mcpServer = null;
 		}
 	}
@@ -91,8 +214,12 @@ export default class DataviewMcpPlugin extends Plugin {
 	async stopServer(): Promise<void> {
 		if (this.mcpServer) {
 			await this.mcpServer.stop();
+			this.customTools?.stop();
+			this.customTools = null;
+			this.api.detach();
 			this.mcpServer = null;
 			new Notice("Server stopped");
+			this.app.workspace.trigger(SERVER_STOPPED_EVENT, this.api);
 		}
 	}
 
@@ -100,55 +227,211 @@ export default class DataviewMcpPlugin extends Plugin {
 		return this.mcpServer?.isServerRunning() ?? false;
 	}
 
+	/**
+	 * Certificate in use by the running server (null for plain HTTP)
+	 */
+	getTlsCredentials(): TlsCredentials | null {
+		return this.isServerRunning() ? this.tlsCredentials : null;
+	}
+
+	/**
+	 * Absolute path of the HTTPS certificate, for clients that need to trust it
+	 */
+	getCertificatePath(): string | null {
+		if (this.settings.httpsCertSource === "custom") {
+			return this.settings.httpsCertPath || null;
+		}
+		const adapter = this.app.vault.adapter;
+		return adapter instanceof FileSystemAdapter
+			? adapter.getFullPath(normalizePath(`${this.getTlsDir()}/cert.pem`))
+			: null;
+	}
+
+	/**
+	 * Replace the generated certificate and restart the server if it is running
+	 */
+	async regenerateCertificate(): Promise<void> {
+		await generateCertificate(this.app, this.getTlsDir());
+		new Notice("HTTPS certificate regenerated");
+		if (this.isServerRunning()) {
+			await this.stopServer();
+			await this.startServer();
+		}
+	}
+
 	updateSecurityMode(): void {
 		if (this.mcpServer) {
 			this.mcpServer.getSecurityManager().setReadOnlyMode(this.settings.readOnlyMode);
+			this.mcpServer.notifyToolListChanged();
 		}
 	}
 
+	/**
+	 * Tell connected agents that the set of available tools may have changed
+	 */
+	refreshTools(): void {
+		this.mcpServer?.notifyToolListChanged();
+	}
+
+	updateToolsFolder(): void {
+		void this.customTools?.setFolder(this.settings.toolsFolder);
+	}
+
+	updateAuditLogOptions(): void {
+		this.auditLog.setOptions(this.getAuditLogOptions());
+		void this.auditLog.prune();
+	}
+
+	updateApprovalPolicy(): void {
+		this.approvals.setPolicy(this.getApprovalPolicy());
+	}
+
+	updateRateLimits(): void {
+		this.rateLimits.setPolicy(this.getRateLimitPolicy());
+	}
+
+	openAuditLog(): void {
+		new AuditLogModal(this.app, this.auditLog).open();
+	}
+
+	updateApiKeys(): void {
+		if (!this.mcpServer) {
+			return;
+		}
+
+		// The server never runs without a key, so removing the last one stops it
+		if (!this.hasApiKey()) {
+			new Notice("No API key is set, stopping the server");
+			void this.stopServer();
+			return;
+		}
+		this.mcpServer.updateApiKeys(this.settings.apiKey, this.settings.apiKeys);
+	}
+
+	/**
+	 * Revoke an OAuth grant and close the sessions using it
+	 */
+	async revokeOAuthGrant(id: string): Promise<void> {
+		// The provider closes the grant's sessions, as for tokens revoked by the client
+		await this.oauth.revokeGrant(id);
+	}
+
+	updateAllowedOrigins(): void {
+		if (this.mcpServer) {
+			this.mcpServer.updateAllowedOrigins(this.settings.allowedOrigins);
+		}
+	}
+
+	updateSessionLimits(): void {
+		if (this.mcpServer) {
+			this.mcpServer.updateSessionLimits(
+				this.settings.sessionIdleTimeout,
+				this.settings.maxSessions
+			);
+		}
+	}
+
+	getSessions(): SessionInfo[] {
+		return this.mcpServer?.getSessions() ?? [];
+	}
+
+	closeSession(sessionId: string): boolean {
+		return this.mcpServer?.closeSession(sessionId) ?? false;
+	}
+
+	private getAuditLogOptions(): AuditLogOptions {
+		return {
+			enabled: this.settings.auditLogEnabled,
+			retentionDays: this.settings.auditRetentionDays,
+			mirrorNotePath: this.settings.auditNotePath,
+		};
+	}
+
+	private getApprovalPolicy(): ApprovalPolicy {
+		return {
+			enabled: this.settings.approvalEnabled,
+			tools: this.settings.approvalTools,
+			folders: this.settings.approvalFolders,
+			timeoutSeconds: this.settings.approvalTimeout,
+			trustMinutes: this.settings.approvalTrustMinutes,
+		};
+	}
+
+	/**
+	 * Path of the Unix domain socket (defaults to a per-vault file in the temp folder)
+	 */
+	getSocketPath(): string {
+		if (this.settings.socketPath) {
+			return this.settings.socketPath;
+		}
+		const vault = this.app.vault.getName().replace(/[^A-Za-z0-9_-]+/g, "-");
+		return join(tmpdir(), `obsidian-connect-mcp-${vault}.sock`);
+	}
+
+	private getRateLimitPolicy(): RateLimitPolicy {
+		return {
+			enabled: this.settings.rateLimitEnabled,
+			scope: this.settings.rateLimitScope,
+			perMinute: this.settings.rateLimitPerMinute,
+			searchPerMinute: this.settings.rateLimitSearchPerMinute,
+			writePerMinute: this.settings.rateLimitWritePerMinute,
+			maxConcurrent: this.settings.maxConcurrentCalls,
+		};
+	}
+
+	private getTlsDir(): string {
+		return `${this.manifest.dir ?? ""}/tls`;
+	}
+
+	private hasApiKey(): boolean {
+		return !!this.settings.apiKey || this.settings.apiKeys.some((k) => !!k.key);
+	}
+
 	private registerCapabilities(): void {
 		if (!this.mcpServer) return;
 
 		// Register vault tools
 		registerVaultTools(
 			this.app,
-			this.mcpServer.getSecurityManager(),
+			() => this.settings.maxAttachmentSize * 1024 * 1024,
+			this.mcpServer.registerTool.bind(this.mcpServer)
+		);
+
+		// Register folder tools
+		registerFolderTools(
+			this.app,
 			this.mcpServer.registerTool.bind(this.mcpServer)
 		);
 
 		// Register edit tools
 		registerEditTools(
 			this.app,
-			this.mcpServer.getSecurityManager(),
+			() => this.settings.maxAttachmentSize * 1024 * 1024,
 			this.mcpServer.registerTool.bind(this.mcpServer)
 		);
 
 		// Register graph tools
 		registerGraphTools(
 			this.app,
-			this.mcpServer.getSecurityManager(),
 			this.mcpServer.registerTool.bind(this.mcpServer)
 		);
 
 		// Register dataview tools
 		registerDataviewTools(
 			this.app,
-			this.mcpServer.getSecurityManager(),
 			this.mcpServer.registerTool.bind(this.mcpServer)
 		);
 
 		// Register active note tools
 		registerActiveTools(
 			this.app,
-			this.mcpServer.getSecurityManager(),
 			this.mcpServer.registerTool.bind(this.mcpServer)
 		);
 
-		// Register command tools (only if enabled in settings)
+		// Register command tools (only advertised while enabled in settings)
 		registerCommandTools(
 			this.app,
-			this.mcpServer.getSecurityManager(),
-			this.settings.allowCommandExecution,
+			() => this.settings.allowCommandExecution,
 			this.mcpServer.registerTool.bind(this.mcpServer)
 		);
 
@@ -156,7 +439,8 @@ export default class DataviewMcpPlugin extends Plugin {
 		registerResources(
 			this.app,
 			"1.0.0",
-			this.mcpServer.registerResource.bind(this.mcpServer)
+			this.mcpServer.registerResource.bind(this.mcpServer),
+			this.mcpServer.registerResourceTemplate.bind(this.mcpServer)
 		);
 
 		// Register prompts handlers
@@ -165,5 +449,10 @@ export default class DataviewMcpPlugin extends Plugin {
 			promptsHandlers.listPrompts,
 			promptsHandlers.getPrompt
 		);
+
+		// Register argument completions (note paths, tags, headings, commands, prompt arguments)
+		this.mcpServer.setCompletionHandler(
+			createCompletionProvider(this.app, () => this.settings.allowCommandExecution, promptsHandlers)
+		);
 	}
 }
@@ -1,79 +1,270 @@
 import express, { Application, Request, Response } from "express";
 import cors from "cors";
-import { Server } from "http";
-import { App } from "obsidian";
+import { Server as HttpServer, createServer as createHttpServer } from "http";
+import { Server as HttpsServer, createServer as createHttpsServer } from "https";
+import type { ListenOptions } from "net";
+import { promises as fs } from "fs";
+import { App, EventRef, TAbstractFile, TFile, getAllTags } from "obsidian";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { getOAuthProtectedResourceMetadataUrl, mcpAuthRouter } from "@modelcontextprotocol/sdk/server/auth/router.js";
 import {
 	ListToolsRequestSchema,
+	ServerNotification,
+	ServerRequest,
 	CallToolRequestSchema,
+	CompleteRequestSchema,
 	ListResourcesRequestSchema,
+	ListResourceTemplatesRequestSchema,
 	ReadResourceRequestSchema,
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
 	ListPromptsRequestSchema,
 	GetPromptRequestSchema,
+	McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 import { randomUUID } from "crypto";
-import { SecurityManager } from "./security/security-manager";
+import { AccessScope, FULL_ACCESS, SecurityManager } from "./security/security-manager";
+import { IpAllowlist, isLoopbackAddress, isOriginAllowed } from "./security/network";
+import {
+	RATE_LIMITED_ERROR_CODE,
+	RateLimitCategory,
+	RateLimitError,
+	RateLimitSlot,
+	SEARCH_TOOLS,
+} from "./security/rate-limiter";
+import type { ScopedApiKey } from "./settings";
+import {
+	folderUri,
+	noteUri,
+	tagUri,
+	ResourceTemplateDefinition,
+	ResourceTemplateHandler,
+} from "./resources";
+import type {
+	ToolContext,
+	ToolDefinition,
+	ToolHandler,
+	ToolOptions,
+	ToolPreview,
+	ToolResult,
+} from "./tools/types";
+import type { CompletionRef, CompletionResult } from "./completions";
+import { extractPaths } from "./audit/audit-log";
+import { ToolError } from "./errors";
+import { errorResult, resultText } from "./tools/tool-result";
+import { OUTPUT_FORMATS, OutputFormat, formatResult, isOutputFormat } from "./tools/output-format";
+import { validateArguments } from "./tools/validation";
+import { clearTrackedContent } from "./tools/content-hash";
+import { OAUTH_SCOPES, ObsidianOAuthProvider } from "./oauth/oauth-provider";
 import type DataviewMcpPlugin from "./main";
 
 export interface McpServerConfig {
 	port: number;
+	/** Interface address to listen on */
+	host: string;
+	/** Browser origins allowed besides loopback ones ("*" = any) */
+	allowedOrigins: string[];
+	/** CIDR ranges of remote clients allowed to connect (empty = any) */
+	allowedIps: string[];
 	apiKey: string;
+	apiKeys: ScopedApiKey[];
+	/** Minutes without requests before a session is closed (0 = never) */
+	sessionIdleTimeout: number;
+	/** Maximum number of concurrent sessions */
+	maxSessions: number;
+	/** Serve HTTPS with this certificate and key instead of plain HTTP */
+	tls?: { cert: string; key: string };
+	/** Listen on the TCP port */
+	tcpEnabled: boolean;
+	/** Also (or only) listen on this Unix domain socket, accessible by the current user only */
+	socketPath?: string;
+	/** Serve OAuth authorization endpoints backed by this provider (TCP only) */
+	oauth?: ObsidianOAuthProvider;
+}
+
+/**
+ * Start listening and wait until the server is bound
+ */
+function listen(server: HttpServer | HttpsServer, options: ListenOptions): Promise<void> {
+	return new Promise((resolve, reject) => {
+		server.once("error", reject);
+		server.listen(options, () => {
+			server.off("error", reject);
+			resolve();
+		});
+	});
 }
 
-interface ToolDefinition {
+/**
+ * Listen on a Unix domain socket with owner-only permissions, replacing a stale socket file
+ */
+async function listenOnSocket(server: HttpServer, path: string): Promise<void> {
+	const existing = await fs.lstat(path).catch(() => null);
+	if (existing?.isSocket()) {
+		await fs.unlink(path);
+	} else if (existing) {
+		throw new Error(`Socket path exists and is not a socket: ${path}`);
+	}
+
+	// Create the socket without group/other permissions so there is no window before chmod
+	const previousUmask = process.umask(0o177);
+	try {
+		await listen(server, { path });
+	} finally {
+		process.umask(previousUmask);
+	}
+	await fs.chmod(path, 0o600);
+}
+
+/**
+ * API key that authenticated a request
+ */
+interface AuthenticatedKey {
 	name: string;
-	description: string;
-	inputSchema: object;
+	key: string;
+	scope: AccessScope;
+	/** Whether the key may manage other sessions */
+	admin: boolean;
 }
 
-interface ToolHandler {
-	(args: Record<string, unknown>): Promise<{
-		content: Array<{ type: string; text: string }>;
-		isError?: boolean;
-	}>;
+/**
+ * State kept for each connected MCP session
+ */
+interface McpSession {
+	id: string;
+	transport: StreamableHTTPServerTransport;
+	mcpServer: McpServer;
+	apiKey: AuthenticatedKey;
+	security: SecurityManager;
+	createdAt: number;
+	lastActivity: number;
+	callCount: number;
+	/** Resource URIs the client subscribed to */
+	subscriptions: Set<string>;
+	/** Output format requested with the X-Output-Format header (null = server default) */
+	outputFormat: OutputFormat | null;
 }
 
-interface ResourceDefinition {
+/**
+ * Public summary of a session (for the admin route and settings tab)
+ */
+export interface SessionInfo {
+	id: string;
+	keyName: string;
+	clientName: string | null;
+	createdAt: string;
+	lastActivity: string;
+	callCount: number;
+}
+
+// Number of notes returned per resources/list page
+const RESOURCE_PAGE_SIZE = 100;
+
+/**
+ * Compile a URI template into a regex with one capture group per {variable}
+ */
+function compileUriTemplate(uriTemplate: string): { regex: RegExp; variables: string[] } {
+	const variables: string[] = [];
+	const pattern = uriTemplate
+		.split(/(\{[^}]+\})/)
+		.map((part) => {
+			const variable = part.match(/^\{([^}]+)\}$/);
+			if (variable?.[1]) {
+				variables.push(variable[1]);
+				return "(.+)";
+			}
+			return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return { regex: new RegExp(`^${pattern}$`), variables };
+}
+
+// Maximum nesting of tool calls made from inside other tools (ToolContext.callTool)
+const MAX_TOOL_CALL_DEPTH = 5;
+
+// How often idle sessions are checked for expiry
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface ResourceDefinition {
 	uri: string;
 	name: string;
 	description: string;
 	mimeType: string;
 }
 
-interface ResourceHandler {
-	(): Promise<string>;
+export interface ResourceHandler {
+	(security: SecurityManager): Promise<string>;
 }
 
-interface PromptDefinition {
+export interface PromptDefinition {
 	name: string;
 	description?: string;
+	arguments?: Array<{ name: string; description?: string; required?: boolean }>;
 }
 
-// PromptHandler type removed - using inline type instead
+/**
+ * Handler for a prompt registered in code (rather than loaded from the prompts folder)
+ */
+export interface PromptHandler {
+	(args: Record<string, string>, security: SecurityManager): Promise<{ description?: string; content: string }>;
+}
 
 export class McpHttpServer {
 	private expressApp: Application;
-	private server?: Server;
-	private transports: Map<string, StreamableHTTPServerTransport> = new Map();
+	private servers: Array<HttpServer | HttpsServer> = [];
+	private sessions: Map<string, McpSession> = new Map();
 	private obsidianApp: App;
 	private plugin: DataviewMcpPlugin;
 	private config: McpServerConfig;
 	private securityManager: SecurityManager;
+	private ipAllowlist: IpAllowlist;
 	private isRunning = false;
+	private sweepInterval?: ReturnType<typeof setInterval>;
+	private vaultEventRefs: Array<{ source: "vault" | "metadataCache"; ref: EventRef }> = [];
 
 	// Tool, resource, and prompt registries
-	private tools: Map<string, { definition: ToolDefinition; handler: ToolHandler }> = new Map();
+	private tools: Map<
+		string,
+		{ definition: ToolDefinition; handler: ToolHandler; options: ToolOptions; hidden: boolean }
+	> = new Map();
 	private resources: Map<string, { definition: ResourceDefinition; handler: ResourceHandler }> =
 		new Map();
+	private resourceTemplates: Map<
+		string,
+		{
+			definition: ResourceTemplateDefinition;
+			handler: ResourceTemplateHandler;
+			regex: RegExp;
+			variables: string[];
+		}
+	> = new Map();
+	private prompts: Map<string, { definition: PromptDefinition; handler: PromptHandler }> = new Map();
 	private promptsLoader?: () => PromptDefinition[] | Promise<PromptDefinition[]>;
-	private promptHandler?: (name: string) => Promise<{ description?: string; content: string }>;
+	private promptHandler?: (
+		name: string,
+		args: Record<string, string>
+	) => Promise<{ description?: string; content: string }>;
+	private completionHandler?: (
+		ref: CompletionRef,
+		argument: { name: string; value: string },
+		context: Record<string, string>,
+		security: SecurityManager
+	) => CompletionResult;
 
 	constructor(app: App, plugin: DataviewMcpPlugin, config: McpServerConfig) {
 		this.obsidianApp = app;
 		this.plugin = plugin;
 		this.config = config;
 		this.securityManager = new SecurityManager(app);
+		this.ipAllowlist = new IpAllowlist(config.allowedIps);
+		if (this.ipAllowlist.invalid.length > 0) {
+			console.warn(`Connect MCP: ignoring invalid allowed IP ranges: ${this.ipAllowlist.invalid.join(", ")}`);
+			if (this.ipAllowlist.invalid.length === config.allowedIps.length) {
+				console.warn("Connect MCP: no valid allowed IP ranges, only loopback clients can connect");
+			}
+		}
 
 		this.expressApp = express();
 		this.setupMiddleware();
@@ -88,10 +279,219 @@ export class McpHttpServer {
 	}
 
 	/**
-	 * Register a tool
+	 * Register a tool (replaces any tool with the same name)
+	 */
+	registerTool(definition: ToolDefinition, handler: ToolHandler, options: ToolOptions = {}): void {
+		this.tools.set(definition.name, { definition, handler, options, hidden: false });
+		this.notifyToolListChanged();
+	}
+
+	/**
+	 * Remove a tool
 	 */
-	registerTool(definition: ToolDefinition, handler: ToolHandler): void {
-		this.tools.set(definition.name, { definition, handler });
+	unregisterTool(name: string): void {
+		if (this.tools.delete(name)) {
+			this.notifyToolListChanged();
+		}
+	}
+
+	/**
+	 * Check whether a tool is registered
+	 */
+	hasTool(name: string): boolean {
+		return this.tools.has(name);
+	}
+
+	/**
+	 * Hide a tool from clients without unregistering it
+	 */
+	setToolHidden(name: string, hidden: boolean): void {
+		const tool = this.tools.get(name);
+		if (tool && tool.hidden !== hidden) {
+			tool.hidden = hidden;
+			this.notifyToolListChanged();
+		}
+	}
+
+	/**
+	 * Tell every connected session to re-fetch the tool list
+	 */
+	notifyToolListChanged(): void {
+		for (const session of this.sessions.values()) {
+			session.mcpServer.server.sendToolListChanged().catch((error) => {
+				console.warn("Failed to send tool list change:", error);
+			});
+		}
+	}
+
+	/**
+	 * Which rate limit a tool call counts against besides the overall one
+	 */
+	private getRateLimitCategory(name: string): RateLimitCategory {
+		if (SEARCH_TOOLS.includes(name)) {
+			return "search";
+		}
+		const tool = this.tools.get(name);
+		return tool && tool.definition.annotations?.readOnlyHint !== true ? "write" : "read";
+	}
+
+	/**
+	 * Run a tool call through availability, validation, approval and audit.
+	 * Used for client requests and for nested calls made through ToolContext.callTool.
+	 */
+	private async executeTool(
+		name: string,
+		toolArgs: Record<string, unknown>,
+		sessionId: string,
+		security: SecurityManager,
+		progressToken: string | number | undefined,
+		extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+		depth: number,
+		slot: RateLimitSlot | null
+	): Promise<ToolResult> {
+		const tool = this.tools.get(name);
+		const session = this.sessions.get(sessionId);
+		const startedAt = Date.now();
+
+		let result: ToolResult;
+		try {
+			if (!tool) {
+				throw new ToolError("NOT_FOUND", `Unknown tool: ${name}`);
+			}
+			if (!this.isToolAvailable(tool, security)) {
+				throw new ToolError("UNAVAILABLE", `Tool is not available: ${name}`);
+			}
+
+			validateArguments(tool.definition.inputSchema, toolArgs);
+			// Waiting for approval does not count against the concurrent call limit
+			const resume = slot?.suspend();
+			try {
+				await this.reviewToolCall(name, tool.options, toolArgs, sessionId, security, extra.signal);
+			} finally {
+				resume?.();
+			}
+
+			result = await tool.handler(
+				toolArgs,
+				this.createToolContext(sessionId, security, progressToken, extra, depth, toolArgs, slot)
+			);
+		} catch (error) {
+			result = errorResult(error);
+		}
+
+		this.plugin.auditLog.record({
+			timestamp: new Date(startedAt).toISOString(),
+			sessionId,
+			keyName: session?.apiKey.name ?? "unknown",
+			clientName: session?.mcpServer.server.getClientVersion()?.name ?? null,
+			tool: name,
+			args: toolArgs,
+			success: !result.isError,
+			error: result.isError ? resultText(result) : undefined,
+			durationMs: Date.now() - startedAt,
+		});
+
+		return result;
+	}
+
+	/**
+	 * Build the per-call context handed to tool handlers
+	 */
+	private createToolContext(
+		sessionId: string,
+		security: SecurityManager,
+		progressToken: string | number | undefined,
+		extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+		depth: number,
+		toolArgs: Record<string, unknown>,
+		slot: RateLimitSlot | null
+	): ToolContext {
+		return {
+			security,
+			signal: extra.signal,
+			maxResponseChars:
+				typeof toolArgs.maxChars === "number" ? toolArgs.maxChars : this.plugin.settings.maxResponseChars,
+			callTool: (name, args) => {
+				if (depth >= MAX_TOOL_CALL_DEPTH) {
+					return Promise.resolve(
+						errorResult(
+							new ToolError("INVALID_ARGUMENT", `Tool calls nested deeper than ${MAX_TOOL_CALL_DEPTH} levels`)
+						)
+					);
+				}
+				return this.executeTool(name, args, sessionId, security, undefined, extra, depth + 1, slot);
+			},
+			reportProgress: async (progress, total, message) => {
+				if (progressToken === undefined || extra.signal.aborted) return;
+				try {
+					await extra.sendNotification({
+						method: "notifications/progress",
+						params: { progressToken, progress, total, message },
+					});
+				} catch (error) {
+					console.warn("Failed to send progress notification:", error);
+				}
+			},
+		};
+	}
+
+	/**
+	 * Ask the user to approve a tool call if the approval policy covers it
+	 * @throws ToolError if the call must not run
+	 */
+	private async reviewToolCall(
+		name: string,
+		options: ToolOptions,
+		args: Record<string, unknown>,
+		sessionId: string,
+		security: SecurityManager,
+		signal: AbortSignal
+	): Promise<void> {
+		const paths = extractPaths(args);
+		if (!this.plugin.approvals.requiresApproval(name, paths, sessionId)) {
+			return;
+		}
+
+		let preview: ToolPreview | null = null;
+		try {
+			preview = (await options.preview?.(args, security)) ?? null;
+		} catch {
+			// Show the raw arguments instead; the handler reports the error if the call is approved
+		}
+
+		const session = this.sessions.get(sessionId);
+		const decision = await this.plugin.approvals.request({
+			sessionId,
+			keyName: session?.apiKey.name ?? "unknown",
+			clientName: session?.mcpServer.server.getClientVersion()?.name ?? null,
+			tool: name,
+			args,
+			paths,
+			preview,
+			signal,
+		});
+
+		switch (decision) {
+			case "approved":
+			case "trusted":
+				return;
+			case "timeout":
+				throw new ToolError("ACCESS_DENIED", `Approval timed out: ${name} was not run`);
+			case "cancelled":
+				throw new ToolError("CANCELLED", "Cancelled while waiting for approval");
+			default:
+				throw new ToolError("ACCESS_DENIED", `Rejected by the user: ${name} was not run`);
+		}
+	}
+
+	/**
+	 * Check if a tool is advertised to a session
+	 */
+	private isToolAvailable(
+		tool: { options: ToolOptions; hidden: boolean },
+		security: SecurityManager
+	): boolean {
+		return !tool.hidden && (tool.options.isAvailable?.(security) ?? true);
 	}
 
 	/**
@@ -99,6 +499,294 @@ export class McpHttpServer {
 	 */
 	registerResource(definition: ResourceDefinition, handler: ResourceHandler): void {
 		this.resources.set(definition.uri, { definition, handler });
+		this.notifyResourceListChanged();
+	}
+
+	/**
+	 * Remove a resource
+	 */
+	unregisterResource(uri: string): void {
+		if (this.resources.delete(uri)) {
+			this.notifyResourceListChanged();
+		}
+	}
+
+	/**
+	 * Check whether a static resource is registered
+	 */
+	hasResource(uri: string): boolean {
+		return this.resources.has(uri);
+	}
+
+	/**
+	 * Register a prompt (takes precedence over a prompts-folder note with the same name)
+	 */
+	registerPrompt(definition: PromptDefinition, handler: PromptHandler): void {
+		this.prompts.set(definition.name, { definition, handler });
+		this.notifyPromptListChanged();
+	}
+
+	/**
+	 * Remove a prompt registered with registerPrompt
+	 */
+	unregisterPrompt(name: string): void {
+		if (this.prompts.delete(name)) {
+			this.notifyPromptListChanged();
+		}
+	}
+
+	/**
+	 * Tell every connected session to re-fetch the prompt list
+	 */
+	notifyPromptListChanged(): void {
+		for (const session of this.sessions.values()) {
+			session.mcpServer.server.sendPromptListChanged().catch((error) => {
+				console.warn("Failed to send prompt list change:", error);
+			});
+		}
+	}
+
+	/**
+	 * Register a resource template
+	 */
+	registerResourceTemplate(
+		definition: ResourceTemplateDefinition,
+		handler: ResourceTemplateHandler
+	): void {
+		const { regex, variables } = compileUriTemplate(definition.uriTemplate);
+		this.resourceTemplates.set(definition.uriTemplate, { definition, handler, regex, variables });
+	}
+
+	/**
+	 * Replace the configured API keys, closing sessions whose key was deleted or had its permissions changed
+	 */
+	updateApiKeys(apiKey: string, apiKeys: ScopedApiKey[]): void {
+		this.config.apiKey = apiKey;
+		this.config.apiKeys = apiKeys;
+
+		for (const session of [...this.sessions.values()]) {
+			// OAuth sessions end when their grant is revoked
+			if (session.apiKey.key.startsWith("oauth:")) continue;
+
+			const current = this.resolveApiKey(`Bearer ${session.apiKey.key}`);
+			if (!current || JSON.stringify(current.scope) !== JSON.stringify(session.apiKey.scope)) {
+				this.closeSession(session.id);
+			} else {
+				session.apiKey.name = current.name;
+			}
+		}
+	}
+
+	/**
+	 * Replace the browser origins allowed to call the server
+	 */
+	updateAllowedOrigins(allowedOrigins: string[]): void {
+		this.config.allowedOrigins = allowedOrigins;
+	}
+
+	/**
+	 * Update session idle timeout (minutes) and concurrent session cap
+	 */
+	updateSessionLimits(sessionIdleTimeout: number, maxSessions: number): void {
+		this.config.sessionIdleTimeout = sessionIdleTimeout;
+		this.config.maxSessions = maxSessions;
+	}
+
+	/**
+	 * List active sessions
+	 */
+	getSessions(): SessionInfo[] {
+		return Array.from(this.sessions.values())
+			.sort((a, b) => a.createdAt - b.createdAt)
+			.map((session) => ({
+				id: session.id,
+				keyName: session.apiKey.name,
+				clientName: session.mcpServer.server.getClientVersion()?.name ?? null,
+				createdAt: new Date(session.createdAt).toISOString(),
+				lastActivity: new Date(session.lastActivity).toISOString(),
+				callCount: session.callCount,
+			}));
+	}
+
+	/**
+	 * Close a session and release its MCP server
+	 * @returns false if the session does not exist
+	 */
+	closeSession(sessionId: string): boolean {
+		const session = this.sessions.get(sessionId);
+		if (!session) {
+			return false;
+		}
+
+		this.sessions.delete(sessionId);
+		this.plugin.approvals.revokeTrust(sessionId);
+		this.plugin.rateLimits.forgetSession(sessionId);
+		void session.mcpServer.close();
+		return true;
+	}
+
+	/**
+	 * Close all sessions authenticated with a key (such as a revoked OAuth grant)
+	 */
+	closeSessionsForKey(key: string): void {
+		for (const session of [...this.sessions.values()]) {
+			if (session.apiKey.key === key) {
+				this.closeSession(session.id);
+			}
+		}
+	}
+
+	/**
+	 * Close sessions that have been idle longer than the configured timeout
+	 */
+	private closeIdleSessions(): void {
+		if (this.config.sessionIdleTimeout <= 0) {
+			return;
+		}
+
+		const cutoff = Date.now() - this.config.sessionIdleTimeout * 60 * 1000;
+		for (const session of Array.from(this.sessions.values())) {
+			if (session.lastActivity < cutoff) {
+				console.debug(`Closing idle MCP session ${session.id}`);
+				this.closeSession(session.id);
+			}
+		}
+	}
+
+	/**
+	 * Find the handler for a resource URI (exact match first, then templates)
+	 */
+	private resolveResource(
+		uri: string,
+		security: SecurityManager
+	): { mimeType: string; read: () => Promise<string> } | null {
+		const resource = this.resources.get(uri);
+		if (resource) {
+			return { mimeType: resource.definition.mimeType, read: () => resource.handler(security) };
+		}
+
+		for (const template of this.resourceTemplates.values()) {
+			const match = uri.match(template.regex);
+			if (!match) continue;
+
+			const params: Record<string, string> = {};
+			template.variables.forEach((variable, index) => {
+				params[variable] = decodeURIComponent(match[index + 1] ?? "");
+			});
+
+			return {
+				mimeType: template.definition.mimeType,
+				read: () => template.handler(params, security),
+			};
+		}
+
+		return null;
+	}
+
+	/**
+	 * Listen to vault changes and forward them to subscribed sessions
+	 */
+	private registerVaultEvents(): void {
+		const vault = this.obsidianApp.vault;
+		const metadataCache = this.obsidianApp.metadataCache;
+
+		this.vaultEventRefs.push(
+			{
+				source: "vault",
+				ref: vault.on("modify", (file) => {
+					if (file.path === ".mcpignore") {
+						void this.securityManager.reloadIgnorePatterns();
+						return;
+					}
+					this.notifyResourcesUpdated(file.path, [noteUri(file.path)]);
+				}),
+			},
+			{
+				source: "vault",
+				ref: vault.on("create", (file) => {
+					this.notifyResourcesUpdated(file.path, [folderUri(file.parent?.path ?? "")]);
+					this.notifyResourceListChanged(file);
+				}),
+			},
+			{
+				source: "vault",
+				ref: vault.on("delete", (file) => {
+					this.notifyResourcesUpdated(file.path, [
+						noteUri(file.path),
+						folderUri(file.parent?.path ?? ""),
+					]);
+					this.notifyResourceListChanged(file);
+				}),
+			},
+			{
+				source: "vault",
+				ref: vault.on("rename", (file, oldPath) => {
+					const oldParent = oldPath.split("/").slice(0, -1).join("/");
+					this.notifyResourcesUpdated(oldPath, [noteUri(oldPath), folderUri(oldParent)]);
+					this.notifyResourcesUpdated(file.path, [folderUri(file.parent?.path ?? "")]);
+					this.notifyResourceListChanged(file);
+				}),
+			},
+			{
+				source: "metadataCache",
+				ref: metadataCache.on("changed", (file, _data, cache) => {
+					const tags = getAllTags(cache) ?? [];
+					this.notifyResourcesUpdated(
+						file.path,
+						tags.flatMap((tag) => {
+							// A note tagged #a/b also belongs to obsidian://tag/a
+							const parts = tag.replace(/^#/, "").split("/");
+							return parts.map((_, i) => tagUri(parts.slice(0, i + 1).join("/")));
+						})
+					);
+				}),
+			}
+		);
+	}
+
+	private unregisterVaultEvents(): void {
+		for (const { source, ref } of this.vaultEventRefs) {
+			if (source === "vault") {
+				this.obsidianApp.vault.offref(ref);
+			} else {
+				this.obsidianApp.metadataCache.offref(ref);
+			}
+		}
+		this.vaultEventRefs = [];
+	}
+
+	/**
+	 * Send resources/updated to sessions subscribed to any of the URIs,
+	 * skipping sessions that may not see the changed path
+	 */
+	private notifyResourcesUpdated(path: string, uris: string[]): void {
+		for (const session of this.sessions.values()) {
+			if (session.subscriptions.size === 0 || !session.security.isAccessible(path)) continue;
+
+			for (const uri of new Set(uris)) {
+				if (session.subscriptions.has(uri)) {
+					session.mcpServer.server.sendResourceUpdated({ uri }).catch((error) => {
+						console.warn("Failed to send resource update:", error);
+					});
+				}
+			}
+		}
+	}
+
+	/**
+	 * Send resources/list_changed when notes or folders are added, removed or renamed,
+	 * or when a static resource is registered or removed (no file)
+	 */
+	private notifyResourceListChanged(file?: TAbstractFile): void {
+		if (file instanceof TFile && file.extension !== "md") return;
+
+		for (const session of this.sessions.values()) {
+			if (file && !session.security.isAccessible(file.path)) continue;
+
+			session.mcpServer.server.sendResourceListChanged().catch((error) => {
+				console.warn("Failed to send resource list change:", error);
+			});
+		}
 	}
 
 	/**
@@ -106,18 +794,51 @@ export class McpHttpServer {
 	 */
 	setPromptsHandlers(
 		loader: () => PromptDefinition[] | Promise<PromptDefinition[]>,
-		handler: (name: string) => Promise<{ description?: string; content: string }>
+		handler: (
+			name: string,
+			args: Record<string, string>
+		) => Promise<{ description?: string; content: string }>
 	): void {
 		this.promptsLoader = loader;
 		this.promptHandler = handler;
 	}
 
+	/**
+	 * Set the handler for completion/complete requests
+	 */
+	setCompletionHandler(
+		handler: (
+			ref: CompletionRef,
+			argument: { name: string; value: string },
+			context: Record<string, string>,
+			security: SecurityManager
+		) => CompletionResult
+	): void {
+		this.completionHandler = handler;
+	}
+
 	private setupMiddleware(): void {
+		// Remote clients must match the IP allowlist (loopback is always allowed)
+		this.expressApp.use((req: Request, res: Response, next) => {
+			// Unix socket connections have no remote address and are always local
+			const address = req.socket.remoteAddress;
+			if (
+				address === undefined ||
+				isLoopbackAddress(address) ||
+				this.ipAllowlist.isEmpty ||
+				this.ipAllowlist.has(address)
+			) {
+				return next();
+			}
+			res.status(403).json({ error: "Client address not allowed" });
+		});
+
 		this.expressApp.use(
 			cors({
-				origin: "*",
+				origin: (origin, callback) =>
+					callback(null, !origin || isOriginAllowed(origin, this.config.allowedOrigins)),
 				methods: ["GET", "POST", "DELETE", "OPTIONS"],
-				allowedHeaders: ["Content-Type", "Authorization", "Mcp-Session-Id"],
+				allowedHeaders: ["Content-Type", "Authorization", "Mcp-Session-Id", "X-Output-Format"],
 				exposedHeaders: ["Mcp-Session-Id"],
 			})
 		);
@@ -130,6 +851,19 @@ export class McpHttpServer {
 			express.json()(req, res, next);
 		});
 
+		// Reject browser requests from unknown origins to prevent DNS rebinding
+		this.expressApp.use("/mcp", (req: Request, res: Response, next) => {
+			const origin = req.headers.origin;
+			if (origin && !isOriginAllowed(origin, this.config.allowedOrigins)) {
+				res.status(403).json({ error: `Origin not allowed: ${origin}` });
+				return;
+			}
+			next();
+		});
+
+		// OAuth metadata, client registration, authorization and token endpoints
+		const resourceMetadataUrl = this.setupOAuth();
+
 		// Auth middleware
 		this.expressApp.use((req: Request, res: Response, next) => {
 			// Skip auth for OPTIONS and health check
@@ -137,21 +871,97 @@ export class McpHttpServer {
 				return next();
 			}
 
-			const authHeader = req.headers.authorization;
-			if (!this.config.apiKey) {
-				// No API key configured, allow access
-				return next();
-			}
-
-			if (!authHeader || authHeader !== `Bearer ${this.config.apiKey}`) {
+			// Without any configured key every request is rejected
+			const apiKey = this.resolveApiKey(req.headers.authorization);
+			if (!apiKey) {
+				if (resourceMetadataUrl) {
+					res.setHeader("WWW-Authenticate", `Bearer resource_metadata="${resourceMetadataUrl}"`);
+				}
 				res.status(401).json({ error: "Unauthorized" });
 				return;
 			}
 
+			res.locals.apiKey = apiKey;
 			next();
 		});
 	}
 
+	/**
+	 * Mount the OAuth authorization server if enabled
+	 * @returns URL of the protected resource metadata, or null without OAuth
+	 */
+	private setupOAuth(): string | null {
+		const provider = this.config.oauth;
+		if (!provider || !this.config.tcpEnabled) {
+			return null;
+		}
+
+		// Plain HTTP issuers must be on localhost
+		const baseUrl = new URL(`${this.config.tls ? "https" : "http"}://localhost:${this.config.port}`);
+		const resourceServerUrl = new URL("/mcp", baseUrl);
+		this.expressApp.use(
+			mcpAuthRouter({
+				provider,
+				issuerUrl: baseUrl,
+				scopesSupported: [...OAUTH_SCOPES],
+				resourceName: `Obsidian vault ${this.obsidianApp.vault.getName()}`,
+				resourceServerUrl,
+			})
+		);
+		return getOAuthProtectedResourceMetadataUrl(resourceServerUrl);
+	}
+
+	/**
+	 * Find the API key matching an Authorization header
+	 */
+	private resolveApiKey(authHeader: string | undefined): AuthenticatedKey | null {
+		if (!authHeader?.startsWith("Bearer ")) {
+			return null;
+		}
+
+		const token = authHeader.slice("Bearer ".length);
+		if (!token) {
+			return null;
+		}
+
+		if (this.config.apiKey && token === this.config.apiKey) {
+			return { name: "primary", key: token, scope: FULL_ACCESS, admin: true };
+		}
+
+		const grant = this.config.oauth?.getGrantForToken(token);
+		if (grant) {
+			return {
+				name: `OAuth: ${grant.clientName}`,
+				// Stable across token refreshes so sessions stay bound to the grant
+				key: `oauth:${grant.id}`,
+				scope: {
+					...grant.scope,
+					readFolders: [...grant.scope.readFolders],
+					writeFolders: [...grant.scope.writeFolders],
+				},
+				admin: false,
+			};
+		}
+
+		const scoped = this.config.apiKeys.find((k) => k.key && k.key === token);
+		if (scoped) {
+			return {
+				name: scoped.name,
+				key: token,
+				scope: {
+					read: scoped.read,
+					write: scoped.write,
+					commands: scoped.commands,
+					readFolders: [...scoped.readFolders],
+					writeFolders: [...scoped.writeFolders],
+				},
+				admin: false,
+			};
+		}
+
+		return null;
+	}
+
 	private setupRoutes(): void {
 		// Health check
 		this.expressApp.get("/health", (_req: Request, res: Response) => {
@@ -162,8 +972,14 @@ export class McpHttpServer {
 			});
 		});
 
-		// MCP info
-		this.expressApp.get("/mcp", (_req: Request, res: Response) => {
+		// MCP info, or the server-to-client notification stream for an existing session
+		this.expressApp.get("/mcp", (req: Request, res: Response) => {
+			const sessionId = req.headers["mcp-session-id"] as string | undefined;
+			if (sessionId) {
+				void this.handleMcpRequest(req, res);
+				return;
+			}
+
 			res.json({
 				message: "MCP endpoint active",
 				usage: "POST /mcp with MCP protocol messages",
@@ -180,10 +996,39 @@ export class McpHttpServer {
 		// Session deletion
 		this.expressApp.delete("/mcp", (req: Request, res: Response) => {
 			const sessionId = req.headers["mcp-session-id"] as string;
-			if (sessionId && this.transports.has(sessionId)) {
-				const transport = this.transports.get(sessionId)!;
-				void transport.close();
-				this.transports.delete(sessionId);
+			const session = sessionId ? this.sessions.get(sessionId) : undefined;
+			const apiKey = res.locals.apiKey as AuthenticatedKey;
+			if (session && session.apiKey.key !== apiKey.key) {
+				res.status(403).json({ error: "Session belongs to a different API key" });
+			} else if (session) {
+				this.closeSession(sessionId);
+				res.json({ message: "Session closed" });
+			} else {
+				res.status(404).json({ error: "Session not found" });
+			}
+		});
+
+		// Session administration (main API key only)
+		this.expressApp.get("/sessions", (_req: Request, res: Response) => {
+			if (!(res.locals.apiKey as AuthenticatedKey).admin) {
+				res.status(403).json({ error: "Forbidden" });
+				return;
+			}
+
+			res.json({
+				sessions: this.getSessions(),
+				maxSessions: this.config.maxSessions,
+				sessionIdleTimeout: this.config.sessionIdleTimeout,
+			});
+		});
+
+		this.expressApp.delete("/sessions/:id", (req: Request, res: Response) => {
+			if (!(res.locals.apiKey as AuthenticatedKey).admin) {
+				res.status(403).json({ error: "Forbidden" });
+				return;
+			}
+
+			if (this.closeSession(req.params.id as string)) {
 				res.json({ message: "Session closed" });
 			} else {
 				res.status(404).json({ error: "Session not found" });
@@ -191,7 +1036,7 @@ export class McpHttpServer {
 		});
 	}
 
-	private createMcpServer(): McpServer {
+	private createMcpServer(sessionId: string, security: SecurityManager): McpServer {
 		const mcpServer = new McpServer(
 			{
 				name: "obsidian-connect-mcp",
@@ -199,9 +1044,10 @@ export class McpHttpServer {
 			},
 			{
 				capabilities: {
-					tools: {},
-					resources: {},
-					prompts: {},
+					tools: { listChanged: true },
+					resources: { subscribe: true, listChanged: true },
+					prompts: { listChanged: true },
+					completions: {},
 				},
 			}
 		);
@@ -211,55 +1057,120 @@ export class McpHttpServer {
 
 		// List tools handler
 		server.setRequestHandler(ListToolsRequestSchema, () => {
-			const toolsList = Array.from(this.tools.values()).map((t) => t.definition);
+			const toolsList = Array.from(this.tools.values())
+				.filter((t) => this.isToolAvailable(t, security))
+				.map((t) => t.definition);
 			return Promise.resolve({ tools: toolsList });
 		});
 
 		// Call tool handler
-		server.setRequestHandler(CallToolRequestSchema, async (request: { params: { name: string; arguments?: Record<string, unknown> } }) => {
+		server.setRequestHandler(CallToolRequestSchema, async (
+			request: {
+				params: {
+					name: string;
+					arguments?: Record<string, unknown>;
+					_meta?: { progressToken?: string | number };
+				};
+			},
+			extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+		) => {
 			const { name, arguments: args } = request.params;
-			const tool = this.tools.get(name);
 
-			if (!tool) {
-				return {
-					content: [{ type: "text", text: `Unknown tool: ${name}` }],
-					isError: true,
-				};
+			const session = this.sessions.get(sessionId);
+			if (session) {
+				session.callCount++;
 			}
 
+			// Over-limit calls fail at the protocol level so clients can back off
+			let slot: RateLimitSlot;
 			try {
-				return await tool.handler((args as Record<string, unknown>) || {});
+				slot = this.plugin.rateLimits.acquire(
+					session?.apiKey.key ?? "unknown",
+					sessionId,
+					this.getRateLimitCategory(name)
+				);
 			} catch (error) {
-				const message = error instanceof Error ? error.message : String(error);
-				return {
-					content: [{ type: "text", text: `Error: ${message}` }],
-					isError: true,
-				};
+				if (error instanceof RateLimitError) {
+					throw new McpError(RATE_LIMITED_ERROR_CODE, error.message, { retryAfter: error.retryAfter });
+				}
+				throw error;
+			}
+
+			try {
+				const toolArgs = (args as Record<string, unknown>) || {};
+				const result = await this.executeTool(
+					name,
+					toolArgs,
+					sessionId,
+					security,
+					request.params._meta?.progressToken,
+					extra,
+					0,
+					slot
+				);
+
+				// Only the text for the client is re-rendered; nested calls always see JSON
+				const format = isOutputFormat(toolArgs.format)
+					? toolArgs.format
+					: (session?.outputFormat ?? this.plugin.settings.outputFormat);
+				return formatResult(result, format, this.tools.get(name)?.options.toMarkdown);
+			} finally {
+				slot.release();
 			}
 		});
 
-		// List resources handler
-		server.setRequestHandler(ListResourcesRequestSchema, () => {
-			const resourcesList = Array.from(this.resources.values()).map((r) => r.definition);
-			return Promise.resolve({ resources: resourcesList });
+		// List resources handler - static resources, then accessible notes page by page
+		server.setRequestHandler(ListResourcesRequestSchema, (request: { params?: { cursor?: string } }) => {
+			const offset = request.params?.cursor ? parseInt(request.params.cursor, 10) : 0;
+			if (isNaN(offset) || offset < 0) {
+				throw new Error(`Invalid cursor: ${request.params?.cursor}`);
+			}
+
+			const resourcesList: Array<ResourceDefinition | Omit<ResourceDefinition, "description">> =
+				offset === 0 ? Array.from(this.resources.values()).map((r) => r.definition) : [];
+
+			const notes = this.obsidianApp.vault
+				.getMarkdownFiles()
+				.filter((f) => security.isAccessible(f.path))
+				.sort((a, b) => a.path.localeCompare(b.path));
+			const page = notes.slice(offset, offset + RESOURCE_PAGE_SIZE);
+			for (const file of page) {
+				resourcesList.push({
+					uri: noteUri(file.path),
+					name: file.path,
+					mimeType: "text/markdown",
+				});
+			}
+
+			const nextOffset = offset + page.length;
+			return Promise.resolve({
+				resources: resourcesList,
+				nextCursor: nextOffset < notes.length ? String(nextOffset) : undefined,
+			});
+		});
+
+		// List resource templates handler
+		server.setRequestHandler(ListResourceTemplatesRequestSchema, () => {
+			const templates = Array.from(this.resourceTemplates.values()).map((t) => t.definition);
+			return Promise.resolve({ resourceTemplates: templates });
 		});
 
 		// Read resource handler
 		server.setRequestHandler(ReadResourceRequestSchema, async (request: { params: { uri: string } }) => {
 			const { uri } = request.params;
-			const resource = this.resources.get(uri);
+			const resource = this.resolveResource(uri, security);
 
 			if (!resource) {
 				throw new Error(`Unknown resource: ${uri}`);
 			}
 
 			try {
-				const content = await resource.handler();
+				const content = await resource.read();
 				return {
 					contents: [
 						{
 							uri,
-							mimeType: resource.definition.mimeType,
+							mimeType: resource.mimeType,
 							text: content,
 						},
 					],
@@ -270,30 +1181,77 @@ export class McpHttpServer {
 			}
 		});
 
+		// Subscribe handler - the resource must exist and be readable by this session
+		server.setRequestHandler(SubscribeRequestSchema, async (request: { params: { uri: string } }) => {
+			const { uri } = request.params;
+			const resource = this.resolveResource(uri, security);
+
+			if (!resource) {
+				throw new Error(`Unknown resource: ${uri}`);
+			}
+
+			try {
+				await resource.read();
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				throw new Error(`Cannot subscribe to resource: ${message}`);
+			}
+
+			this.sessions.get(sessionId)?.subscriptions.add(uri);
+			return {};
+		});
+
+		// Unsubscribe handler
+		server.setRequestHandler(UnsubscribeRequestSchema, (request: { params: { uri: string } }) => {
+			this.sessions.get(sessionId)?.subscriptions.delete(request.params.uri);
+			return Promise.resolve({});
+		});
+
+		// Completion handler - note paths, folders, tags, headings, frontmatter keys, commands
+		server.setRequestHandler(CompleteRequestSchema, (request: {
+			params: {
+				ref: CompletionRef;
+				argument: { name: string; value: string };
+				context?: { arguments?: Record<string, string> };
+			};
+		}) => {
+			const { ref, argument, context } = request.params;
+			const completion = this.completionHandler
+				? this.completionHandler(ref, argument, context?.arguments ?? {}, security)
+				: { values: [], total: 0, hasMore: false };
+			return Promise.resolve({ completion });
+		});
+
 		// List prompts handler
 		server.setRequestHandler(ListPromptsRequestSchema, async () => {
+			const registered = Array.from(this.prompts.values()).map((p) => p.definition);
 			if (!this.promptsLoader) {
-				return { prompts: [] };
+				return { prompts: registered };
 			}
 
 			try {
-				const prompts = await this.promptsLoader();
-				return { prompts };
+				const loaded = await this.promptsLoader();
+				return {
+					prompts: [...registered, ...loaded.filter((p) => !this.prompts.has(p.name))],
+				};
 			} catch {
-				return { prompts: [] };
+				return { prompts: registered };
 			}
 		});
 
 		// Get prompt handler
-		server.setRequestHandler(GetPromptRequestSchema, async (request: { params: { name: string } }) => {
-			const { name } = request.params;
+		server.setRequestHandler(GetPromptRequestSchema, async (request: { params: { name: string; arguments?: Record<string, string> } }) => {
+			const { name, arguments: promptArgs } = request.params;
 
-			if (!this.promptHandler) {
+			const registered = this.prompts.get(name);
+			if (!registered && !this.promptHandler) {
 				throw new Error(`Prompt not found: ${name}`);
 			}
 
 			try {
-				const prompt = await this.promptHandler(name);
+				const prompt = registered
+					? await registered.handler(promptArgs ?? {}, security)
+					: await this.promptHandler!(name, promptArgs ?? {});
 				return {
 					description: prompt.description,
 					messages: [
@@ -318,13 +1276,27 @@ export class McpHttpServer {
 	private async handleMcpRequest(req: Request, res: Response): Promise<void> {
 		try {
 			const sessionId = req.headers["mcp-session-id"] as string | undefined;
+			const apiKey = res.locals.apiKey as AuthenticatedKey;
 
 			let transport: StreamableHTTPServerTransport;
 
-			if (sessionId && this.transports.has(sessionId)) {
-				// Existing session
-				transport = this.transports.get(sessionId)!;
-			} else if (sessionId && !this.transports.has(sessionId)) {
+			if (sessionId && this.sessions.has(sessionId)) {
+				// Existing session - it must keep using the key that created it
+				const session = this.sessions.get(sessionId)!;
+				if (session.apiKey.key !== apiKey.key) {
+					res.status(403).json({
+						jsonrpc: "2.0",
+						error: {
+							code: -32000,
+							message: "Session belongs to a different API key.",
+						},
+						id: null,
+					});
+					return;
+				}
+				session.lastActivity = Date.now();
+				transport = session.transport;
+			} else if (sessionId && !this.sessions.has(sessionId)) {
 				// Client provided a session ID that doesn't exist (expired or invalid)
 				// Return error so client knows to re-initialize
 				res.status(400).json({
@@ -338,19 +1310,66 @@ export class McpHttpServer {
 				return;
 			} else {
 				// New session (no session ID provided)
+				if (this.sessions.size >= this.config.maxSessions) {
+					res.status(503).json({
+						jsonrpc: "2.0",
+						error: {
+							code: -32000,
+							message: `Too many active sessions (limit: ${this.config.maxSessions}). Close an existing session and try again.`,
+						},
+						id: null,
+					});
+					return;
+				}
+
+				const requestedFormat = req.headers["x-output-format"];
+				if (requestedFormat !== undefined && !isOutputFormat(requestedFormat)) {
+					res.status(400).json({
+						jsonrpc: "2.0",
+						error: {
+							code: -32000,
+							message: `Invalid X-Output-Format header (expected ${OUTPUT_FORMATS.join(", ")})`,
+						},
+						id: null,
+					});
+					return;
+				}
+
 				const newSessionId = randomUUID();
-				const mcpServer = this.createMcpServer();
+				const security = this.securityManager.forScope(apiKey.scope);
+				const mcpServer = this.createMcpServer(newSessionId, security);
 
-				transport = new StreamableHTTPServerTransport({
+				// The session is only registered once the transport has accepted a valid initialize request
+				const newTransport = new StreamableHTTPServerTransport({
 					sessionIdGenerator: () => newSessionId,
+					onsessioninitialized: () => {
+						const now = Date.now();
+						this.sessions.set(newSessionId, {
+							id: newSessionId,
+							transport: newTransport,
+							mcpServer,
+							apiKey,
+							security,
+							createdAt: now,
+							lastActivity: now,
+							callCount: 0,
+							subscriptions: new Set(),
+							outputFormat: requestedFormat ?? null,
+						});
+					},
 				});
+				transport = newTransport;
 
 				await mcpServer.connect(transport);
-				this.transports.set(newSessionId, transport);
-
 				transport.onclose = () => {
-					this.transports.delete(newSessionId);
+					this.closeSession(newSessionId);
 				};
+
+				await transport.handleRequest(req, res);
+				if (!this.sessions.has(newSessionId)) {
+					void mcpServer.close();
+				}
+				return;
 			}
 
 			await transport.handleRequest(req, res);
@@ -378,38 +1397,71 @@ export class McpHttpServer {
 		await this.securityManager.initialize();
 		this.securityManager.setReadOnlyMode(this.plugin.settings.readOnlyMode);
 
-		return new Promise((resolve, reject) => {
-			this.server = this.expressApp.listen(this.config.port, "127.0.0.1", () => {
-				this.isRunning = true;
-				console.debug(`MCP server started on http://127.0.0.1:${this.config.port}`);
-				resolve();
-			});
+		try {
+			if (this.config.tcpEnabled) {
+				const tls = this.config.tls;
+				const server = tls
+					? createHttpsServer({ cert: tls.cert, key: tls.key }, this.expressApp)
+					: createHttpServer(this.expressApp);
+				this.servers.push(server);
+				await listen(server, { port: this.config.port, host: this.config.host });
+				console.debug(`MCP server started on ${tls ? "https" : "http"}://${this.config.host}:${this.config.port}`);
+			}
 
-			this.server.on("error", (err) => {
-				this.isRunning = false;
-				reject(err);
-			});
-		});
+			if (this.config.socketPath) {
+				// TLS adds nothing on a socket that only the owner can open
+				const server = createHttpServer(this.expressApp);
+				this.servers.push(server);
+				await listenOnSocket(server, this.config.socketPath);
+				console.debug(`MCP server started on unix socket ${this.config.socketPath}`);
+			}
+		} catch (error) {
+			await this.closeServers();
+			throw error;
+		}
+
+		this.isRunning = true;
+		this.registerVaultEvents();
+		this.sweepInterval = setInterval(() => this.closeIdleSessions(), SESSION_SWEEP_INTERVAL_MS);
 	}
 
 	async stop(): Promise<void> {
-		if (!this.isRunning || !this.server) {
+		if (!this.isRunning) {
 			return;
 		}
 
-		// Close all transports
-		for (const [sessionId, transport] of this.transports) {
-			void transport.close();
-			this.transports.delete(sessionId);
+		if (this.sweepInterval) {
+			clearInterval(this.sweepInterval);
+			this.sweepInterval = undefined;
 		}
+		this.unregisterVaultEvents();
 
-		return new Promise((resolve) => {
-			this.server?.close(() => {
-				this.isRunning = false;
-				console.debug("MCP server stopped");
-				resolve();
-			});
-		});
+		// Close all sessions
+		for (const sessionId of Array.from(this.sessions.keys())) {
+			this.closeSession(sessionId);
+		}
+		clearTrackedContent();
+
+		await this.closeServers();
+		this.isRunning = false;
+		console.debug("MCP server stopped");
+	}
+
+	private async closeServers(): Promise<void> {
+		const servers = this.servers;
+		this.servers = [];
+		await Promise.all(
+			servers.map(
+				(server) =>
+					new Promise<void>((resolve) => {
+						if (!server.listening) {
+							resolve();
+							return;
+						}
+						server.close(() => resolve());
+					})
+			)
+		);
 	}
 
 	isServerRunning(): boolean {
@@ -0,0 +1,124 @@
+import { App, Modal, Setting } from "obsidian";
+import type { AccessScope } from "../security/security-manager";
+
+/**
+ * Split a comma-separated list of folders
+ */
+function parseFolders(value: string): string[] {
+	return value
+		.split(",")
+		.map((folder) => folder.trim())
+		.filter((folder) => folder.length > 0);
+}
+
+/**
+ * Consent dialog for an OAuth client, where the user picks the access to grant
+ */
+export class OAuthConsentModal extends Modal {
+	private clientName: string;
+	private redirectUri: string;
+	private timeoutSeconds: number;
+	private onDecision: (scope: AccessScope | null) => void;
+	private access: AccessScope;
+	private granted = false;
+	private timer: number | null = null;
+
+	/**
+	 * @param requestedScopes Scopes asked for by the client (none = read only)
+	 */
+	constructor(
+		app: App,
+		clientName: string,
+		redirectUri: string,
+		requestedScopes: string[],
+		timeoutSeconds: number,
+		onDecision: (scope: AccessScope | null) => void
+	) {
+		super(app);
+		this.clientName = clientName;
+		this.redirectUri = redirectUri;
+		this.timeoutSeconds = timeoutSeconds;
+		this.onDecision = onDecision;
+		this.access = {
+			read: requestedScopes.length === 0 || requestedScopes.includes("read"),
+			write: requestedScopes.includes("write"),
+			commands: requestedScopes.includes("commands"),
+			readFolders: [],
+			writeFolders: [],
+		};
+	}
+
+	onOpen(): void {
+		const { contentEl, access } = this;
+		this.setTitle("Allow MCP client access?");
+		this.modalEl.addClass("connect-mcp-approval-modal");
+
+		const details = contentEl.createEl("table", { cls: "connect-mcp-table" });
+		const addRow = (label: string, value: string) => {
+			const row = details.createEl("tr");
+			row.createEl("th", { text: label });
+			row.createEl("td", { text: value });
+		};
+		addRow("Client", this.clientName);
+		addRow("Redirect", this.redirectUri);
+
+		new Setting(contentEl)
+			.setName("Read notes")
+			.addToggle((toggle) => toggle.setValue(access.read).onChange((value) => (access.read = value)));
+		new Setting(contentEl)
+			.setName("Write notes")
+			.addToggle((toggle) => toggle.setValue(access.write).onChange((value) => (access.write = value)));
+		new Setting(contentEl)
+			.setName("Run commands")
+			.addToggle((toggle) => toggle.setValue(access.commands).onChange((value) => (access.commands = value)));
+		new Setting(contentEl)
+			.setName("Read folders")
+			.setDesc("Comma-separated; leave empty to allow the whole vault.")
+			.addText((text) =>
+				text.setPlaceholder("All folders").onChange((value) => (access.readFolders = parseFolders(value)))
+			);
+		new Setting(contentEl)
+			.setName("Write folders")
+			.addText((text) =>
+				text.setPlaceholder("All folders").onChange((value) => (access.writeFolders = parseFolders(value)))
+			);
+
+		const countdownEl = contentEl.createEl("p", { cls: "setting-item-description" });
+		let remaining = this.timeoutSeconds;
+		const updateCountdown = () => {
+			countdownEl.setText(`Denied automatically in ${remaining} s.`);
+		};
+		if (this.timeoutSeconds > 0) {
+			updateCountdown();
+			this.timer = window.setInterval(() => {
+				remaining--;
+				if (remaining <= 0) {
+					this.close();
+				} else {
+					updateCountdown();
+				}
+			}, 1000);
+		}
+
+		new Setting(contentEl)
+			.addButton((button) => button.setButtonText("Deny").onClick(() => this.close()))
+			.addButton((button) =>
+				button
+					.setButtonText("Allow")
+					.setCta()
+					.onClick(() => {
+						this.granted = true;
+						this.close();
+					})
+			);
+	}
+
+	onClose(): void {
+		if (this.timer !== null) {
+			window.clearInterval(this.timer);
+			this.timer = null;
+		}
+		this.contentEl.empty();
+		this.onDecision(this.granted ? this.access : null);
+	}
+}
@@ -0,0 +1,284 @@
+import { App } from "obsidian";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import type { Response } from "express";
+import type { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/auth/clients.js";
+import {
+	AccessDeniedError,
+	InvalidGrantError,
+	InvalidTokenError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { AuthorizationParams, OAuthServerProvider } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type {
+	OAuthClientInformationFull,
+	OAuthTokenRevocationRequest,
+	OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { AccessScope } from "../security/security-manager";
+import { OAuthConsentModal } from "./consent-modal";
+
+/**
+ * OAuth scopes offered to clients (folder limits are chosen in the consent dialog)
+ */
+export const OAUTH_SCOPES = ["read", "write", "commands"] as const;
+
+// Lifetimes of authorization codes and access tokens
+const CODE_TTL_MS = 10 * 60 * 1000;
+const ACCESS_TOKEN_TTL_S = 60 * 60;
+// Seconds the consent dialog waits before denying
+const CONSENT_TIMEOUT_S = 300;
+// Registered clients kept (the oldest ones without a grant are dropped first)
+const MAX_CLIENTS = 100;
+
+/**
+ * Access granted to a client in the consent dialog, persisted in the plugin settings.
+ * Only hashes of the tokens are stored.
+ */
+export interface OAuthGrant {
+	id: string;
+	clientId: string;
+	clientName: string;
+	scope: AccessScope;
+	accessTokenHash: string;
+	/** Expiry of the access token (ms since epoch) */
+	accessTokenExpiresAt: number;
+	refreshTokenHash: string;
+	createdAt: number;
+	lastUsedAt: number;
+}
+
+/**
+ * Where clients and grants are kept (the plugin settings)
+ */
+export interface OAuthStorage {
+	clients(): OAuthClientInformationFull[];
+	grants(): OAuthGrant[];
+	save(): Promise<void>;
+}
+
+interface PendingCode {
+	clientId: string;
+	codeChallenge: string;
+	redirectUri: string;
+	scope: AccessScope;
+	expiresAt: number;
+}
+
+function hashToken(token: string): string {
+	return createHash("sha256").update(token).digest("hex");
+}
+
+function newToken(): string {
+	return randomBytes(32).toString("base64url");
+}
+
+/**
+ * OAuth scope string for an access scope
+ */
+export function scopeString(scope: AccessScope): string {
+	return OAUTH_SCOPES.filter((name) => scope[name]).join(" ");
+}
+
+/**
+ * Authorization server for MCP clients: dynamic client registration, consent in an
+ * Obsidian modal, and revocable access and refresh tokens
+ */
+export class ObsidianOAuthProvider implements OAuthServerProvider {
+	private app: App;
+	private storage: OAuthStorage;
+	private onRevoke: (grantId: string) => void;
+	private codes = new Map<string, PendingCode>();
+
+	/**
+	 * @param onRevoke Called after a grant is revoked, to close the sessions using it
+	 */
+	constructor(app: App, storage: OAuthStorage, onRevoke: (grantId: string) => void) {
+		this.app = app;
+		this.storage = storage;
+		this.onRevoke = onRevoke;
+	}
+
+	get clientsStore(): OAuthRegisteredClientsStore {
+		return {
+			getClient: (clientId) => this.storage.clients().find((c) => c.client_id === clientId),
+			registerClient: async (client) => {
+				const registered = client as OAuthClientInformationFull;
+				this.storage.clients().push(registered);
+				this.pruneClients();
+				await this.storage.save();
+				return registered;
+			},
+		};
+	}
+
+	/**
+	 * Ask the user which access to grant, then redirect back to the client with a code
+	 * @throws AccessDeniedError if the user denies access or does not answer
+	 */
+	async authorize(client: OAuthClientInformationFull, params: AuthorizationParams, res: Response): Promise<void> {
+		const scope = await new Promise<AccessScope | null>((resolve) => {
+			new OAuthConsentModal(
+				this.app,
+				client.client_name ?? client.client_id,
+				params.redirectUri,
+				params.scopes ?? [],
+				CONSENT_TIMEOUT_S,
+				resolve
+			).open();
+		});
+		if (!scope) {
+			throw new AccessDeniedError("The user denied access");
+		}
+
+		const code = newToken();
+		this.codes.set(code, {
+			clientId: client.client_id,
+			codeChallenge: params.codeChallenge,
+			redirectUri: params.redirectUri,
+			scope,
+			expiresAt: Date.now() + CODE_TTL_MS,
+		});
+
+		const target = new URL(params.redirectUri);
+		target.searchParams.set("code", code);
+		if (params.state !== undefined) {
+			target.searchParams.set("state", params.state);
+		}
+		res.redirect(302, target.href);
+	}
+
+	challengeForAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string): Promise<string> {
+		return Promise.resolve(this.getCode(client, authorizationCode).codeChallenge);
+	}
+
+	async exchangeAuthorizationCode(
+		client: OAuthClientInformationFull,
+		authorizationCode: string,
+		_codeVerifier?: string,
+		redirectUri?: string
+	): Promise<OAuthTokens> {
+		const pending = this.getCode(client, authorizationCode);
+		this.codes.delete(authorizationCode);
+		if (redirectUri !== undefined && redirectUri !== pending.redirectUri) {
+			throw new InvalidGrantError("redirect_uri does not match the authorization request");
+		}
+
+		const now = Date.now();
+		const grant: OAuthGrant = {
+			id: randomUUID(),
+			clientId: client.client_id,
+			clientName: client.client_name ?? client.client_id,
+			scope: pending.scope,
+			accessTokenHash: "",
+			accessTokenExpiresAt: 0,
+			refreshTokenHash: "",
+			createdAt: now,
+			lastUsedAt: now,
+		};
+		const tokens = this.issueTokens(grant);
+		this.storage.grants().push(grant);
+		await this.storage.save();
+		return tokens;
+	}
+
+	/**
+	 * Issue new tokens for a grant, rotating the refresh token
+	 */
+	async exchangeRefreshToken(client: OAuthClientInformationFull, refreshToken: string): Promise<OAuthTokens> {
+		const hash = hashToken(refreshToken);
+		const grant = this.storage.grants().find(
+			(g) => g.refreshTokenHash === hash && g.clientId === client.client_id
+		);
+		if (!grant) {
+			throw new InvalidGrantError("Invalid or revoked refresh token");
+		}
+
+		const tokens = this.issueTokens(grant);
+		await this.storage.save();
+		return tokens;
+	}
+
+	verifyAccessToken(token: string): Promise<AuthInfo> {
+		const grant = this.getGrantForToken(token);
+		if (!grant) {
+			return Promise.reject(new InvalidTokenError("Invalid, expired or revoked access token"));
+		}
+		return Promise.resolve({
+			token,
+			clientId: grant.clientId,
+			scopes: scopeString(grant.scope).split(" ").filter(Boolean),
+			expiresAt: Math.floor(grant.accessTokenExpiresAt / 1000),
+			extra: { grantId: grant.id },
+		});
+	}
+
+	async revokeToken(client: OAuthClientInformationFull, request: OAuthTokenRevocationRequest): Promise<void> {
+		const hash = hashToken(request.token);
+		const grant = this.storage.grants().find(
+			(g) => g.clientId === client.client_id && (g.accessTokenHash === hash || g.refreshTokenHash === hash)
+		);
+		if (grant) {
+			await this.revokeGrant(grant.id);
+		}
+	}
+
+	/**
+	 * Find the grant of a valid access token (used by the server's auth middleware)
+	 */
+	getGrantForToken(token: string): OAuthGrant | null {
+		const hash = hashToken(token);
+		const grant = this.storage.grants().find((g) => g.accessTokenHash === hash);
+		if (!grant || grant.accessTokenExpiresAt <= Date.now()) {
+			return null;
+		}
+		grant.lastUsedAt = Date.now();
+		return grant;
+	}
+
+	/**
+	 * Revoke a grant and its tokens (from the settings tab or the revocation endpoint)
+	 */
+	async revokeGrant(id: string): Promise<void> {
+		const index = this.storage.grants().findIndex((g) => g.id === id);
+		if (index !== -1) {
+			this.storage.grants().splice(index, 1);
+			await this.storage.save();
+			this.onRevoke(id);
+		}
+	}
+
+	private getCode(client: OAuthClientInformationFull, code: string): PendingCode {
+		const pending = this.codes.get(code);
+		if (!pending || pending.clientId !== client.client_id || pending.expiresAt <= Date.now()) {
+			this.codes.delete(code);
+			throw new InvalidGrantError("Invalid or expired authorization code");
+		}
+		return pending;
+	}
+
+	private issueTokens(grant: OAuthGrant): OAuthTokens {
+		const accessToken = newToken();
+		const refreshToken = newToken();
+		grant.accessTokenHash = hashToken(accessToken);
+		grant.accessTokenExpiresAt = Date.now() + ACCESS_TOKEN_TTL_S * 1000;
+		grant.refreshTokenHash = hashToken(refreshToken);
+		grant.lastUsedAt = Date.now();
+
+		return {
+			access_token: accessToken,
+			token_type: "bearer",
+			expires_in: ACCESS_TOKEN_TTL_S,
+			refresh_token: refreshToken,
+			scope: scopeString(grant.scope),
+		};
+	}
+
+	private pruneClients(): void {
+		const clients = this.storage.clients();
+		while (clients.length > MAX_CLIENTS) {
+			const unused = clients.findIndex((c) => !this.storage.grants().some((g) => g.clientId === c.client_id));
+			if (unused === -1) break;
+			clients.splice(unused, 1);
+		}
+	}
+}
@@ -53,6 +53,13 @@ export interface PluginsManager {
 	plugins: Record<string, unknown>;
 }
 
+/**
+ * Vault interface for internal settings access
+ */
+export interface VaultWithConfig {
+	getConfig(key: string): unknown;
+}
+
 /**
  * Extended App interface with internal APIs
  */
@@ -91,6 +98,20 @@ export function isDataviewEnabled(app: App): boolean {
 	return getDataviewApi(app) !== null;
 }
 
+/**
+ * Check if "Automatically update internal links" is enabled in the vault settings
+ */
+export function isLinkUpdatingEnabled(app: App): boolean {
+	return (app.vault as unknown as VaultWithConfig).getConfig("alwaysUpdateLinks") === true;
+}
+
+/**
+ * Check if the metadata cache has finished indexing the vault since startup
+ */
+export function isMetadataCacheResolved(app: App): boolean {
+	return (app.metadataCache as MetadataCache & { resolved?: boolean }).resolved === true;
+}
+
 /**
  * Helper function to get the extended metadata cache
  */
@@ -1,8 +1,15 @@
 import { App, TFile } from "obsidian";
 
+interface PromptArgument {
+	name: string;
+	description?: string;
+	required?: boolean;
+}
+
 interface PromptDefinition {
 	name: string;
 	description?: string;
+	arguments?: PromptArgument[];
 }
 
 interface PromptContent {
@@ -10,6 +17,36 @@ interface PromptContent {
 	content: string;
 }
 
+/**
+ * Prompt argument as declared in frontmatter, with an optional completion kind
+ */
+interface DeclaredPromptArgument extends PromptArgument {
+	completion?: string;
+}
+
+/**
+ * Read the `arguments` frontmatter list of a prompt note
+ */
+function readFrontmatterArguments(value: unknown): DeclaredPromptArgument[] {
+	if (!Array.isArray(value)) return [];
+
+	// Each entry is either a bare name or { name, description, required, completion }
+	const args: DeclaredPromptArgument[] = [];
+	for (const item of value as Array<string | DeclaredPromptArgument>) {
+		if (typeof item === "string") {
+			args.push({ name: item });
+		} else if (item && typeof item === "object" && typeof item.name === "string") {
+			args.push({
+				name: item.name,
+				description: typeof item.description === "string" ? item.description : undefined,
+				required: item.required === true,
+				completion: typeof item.completion === "string" ? item.completion : undefined,
+			});
+		}
+	}
+	return args;
+}
+
 /**
  * Create prompts handlers for the MCP server
  */
@@ -18,8 +55,14 @@ export function createPromptsHandlers(
 	promptsFolder: string
 ): {
 	listPrompts: () => PromptDefinition[];
-	getPrompt: (name: string) => Promise<PromptContent>;
+	getPrompt: (name: string, args?: Record<string, string>) => Promise<PromptContent>;
+	getArgumentCompletion: (name: string, argument: string) => string | undefined;
 } {
+	const getPromptFile = (name: string): TFile | null => {
+		const file = app.vault.getAbstractFileByPath(`${promptsFolder}/${name}.md`);
+		return file instanceof TFile ? file : null;
+	};
+
 	return {
 		/**
 		 * List all prompts from the configured folder
@@ -39,9 +82,14 @@ export function createPromptsHandlers(
 
 			for (const file of promptFiles) {
 				const cache = app.metadataCache.getFileCache(file);
+				const args = readFrontmatterArguments(cache?.frontmatter?.arguments);
 				prompts.push({
 					name: file.basename,
 					description: cache?.frontmatter?.description as string | undefined,
+					arguments:
+						args.length > 0
+							? args.map(({ name, description, required }) => ({ name, description, required }))
+							: undefined,
 				});
 			}
 
@@ -51,11 +99,10 @@ export function createPromptsHandlers(
 		/**
 		 * Get a specific prompt by name
 		 */
-		async getPrompt(name: string): Promise<PromptContent> {
-			const path = `${promptsFolder}/${name}.md`;
-			const file = app.vault.getAbstractFileByPath(path);
+		async getPrompt(name: string, args: Record<string, string> = {}): Promise<PromptContent> {
+			const file = getPromptFile(name);
 
-			if (!file || !(file instanceof TFile)) {
+			if (!file) {
 				throw new Error(`Prompt not found: ${name}`);
 			}
 
@@ -71,10 +118,32 @@ export function createPromptsHandlers(
 				}
 			}
 
+			// Substitute {{argument}} placeholders
+			for (const arg of readFrontmatterArguments(cache?.frontmatter?.arguments)) {
+				const value = args[arg.name];
+				if (value === undefined && arg.required) {
+					throw new Error(`Missing required argument: ${arg.name}`);
+				}
+				promptContent = promptContent.split(`{{${arg.name}}}`).join(value ?? "");
+			}
+
 			return {
 				description: cache?.frontmatter?.description as string | undefined,
 				content: promptContent,
 			};
 		},
+
+		/**
+		 * Get the completion kind declared for a prompt argument (e.g. "path", "tag")
+		 */
+		getArgumentCompletion(name: string, argument: string): string | undefined {
+			const file = getPromptFile(name);
+			if (!file) return undefined;
+
+			const cache = app.metadataCache.getFileCache(file);
+			return readFrontmatterArguments(cache?.frontmatter?.arguments).find(
+				(arg) => arg.name === argument
+			)?.completion;
+		},
 	};
 }
@@ -1,5 +1,6 @@
-import { App } from "obsidian";
+import { App, TFile, TFolder, getAllTags } from "obsidian";
 import { isDataviewEnabled } from "./obsidian-internals";
+import type { SecurityManager } from "./security/security-manager";
 
 interface ResourceDefinition {
 	uri: string;
@@ -12,13 +13,53 @@ interface ResourceHandler {
 	(): Promise<string>;
 }
 
+/**
+ * Parameterized resource (RFC 6570 level 1 template, e.g. obsidian://note/{path})
+ */
+export interface ResourceTemplateDefinition {
+	uriTemplate: string;
+	name: string;
+	description: string;
+	mimeType: string;
+}
+
+export interface ResourceTemplateHandler {
+	(params: Record<string, string>, security: SecurityManager): Promise<string>;
+}
+
+/**
+ * Build the obsidian://note/ URI for a vault path (each segment is percent-encoded)
+ */
+export function noteUri(path: string): string {
+	return `obsidian://note/${path.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+/**
+ * Build the obsidian://folder/ URI for a vault folder ("" or "/" = vault root)
+ */
+export function folderUri(path: string): string {
+	if (!path || path === "/") return "obsidian://folder//";
+	return `obsidian://folder/${path.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+/**
+ * Build the obsidian://tag/ URI for a tag (with or without leading #)
+ */
+export function tagUri(tag: string): string {
+	return `obsidian://tag/${encodeURIComponent(tag.replace(/^#/, ""))}`;
+}
+
 /**
  * Register MCP resources
  */
 export function registerResources(
 	app: App,
 	pluginVersion: string,
-	registerResource: (definition: ResourceDefinition, handler: ResourceHandler) => void
+	registerResource: (definition: ResourceDefinition, handler: ResourceHandler) => void,
+	registerResourceTemplate: (
+		definition: ResourceTemplateDefinition,
+		handler: ResourceTemplateHandler
+	) => void
 ): void {
 	// vault-info resource
 	registerResource(
@@ -67,6 +108,103 @@ export function registerResources(
 		}
 	);
 
+	// note template - raw note content
+	registerResourceTemplate(
+		{
+			uriTemplate: "obsidian://note/{path}",
+			name: "Note",
+			description: "Markdown content of a vault note",
+			mimeType: "text/markdown",
+		},
+		async (params, security): Promise<string> => {
+			const path = security.validateRead(params.path ?? "");
+			const file = app.vault.getAbstractFileByPath(path);
+			if (!file || !(file instanceof TFile)) {
+				throw new Error(`File not found: ${path}`);
+			}
+			return app.vault.read(file);
+		}
+	);
+
+	// folder template - direct children of a folder
+	registerResourceTemplate(
+		{
+			uriTemplate: "obsidian://folder/{path}",
+			name: "Folder",
+			description: "Notes and subfolders directly inside a vault folder",
+			mimeType: "application/json",
+		},
+		(params, security): Promise<string> => {
+			const requested = params.path ?? "";
+			const path = requested && requested !== "/" ? security.validateRead(requested) : "/";
+			const folder = path === "/" ? app.vault.getRoot() : app.vault.getAbstractFileByPath(path);
+			if (!folder || !(folder instanceof TFolder)) {
+				throw new Error(`Folder not found: ${path}`);
+			}
+
+			const folders: string[] = [];
+			const files: Array<{ path: string; uri: string }> = [];
+			for (const child of folder.children) {
+				if (!security.isAccessible(child.path)) continue;
+				if (child instanceof TFolder) {
+					folders.push(child.path);
+				} else if (child instanceof TFile && child.extension === "md") {
+					files.push({ path: child.path, uri: noteUri(child.path) });
+				}
+			}
+
+			return Promise.resolve(JSON.stringify(
+				{
+					path: folder.path,
+					folders: folders.sort(),
+					files: files.sort((a, b) => a.path.localeCompare(b.path)),
+				},
+				null,
+				2
+			));
+		}
+	);
+
+	// tag template - notes carrying a tag (including nested tags)
+	registerResourceTemplate(
+		{
+			uriTemplate: "obsidian://tag/{tag}",
+			name: "Tag",
+			description: "Notes tagged with a tag or one of its nested tags",
+			mimeType: "application/json",
+		},
+		(params, security): Promise<string> => {
+			const tag = `#${(params.tag ?? "").replace(/^#/, "")}`.toLowerCase();
+			if (tag === "#") {
+				throw new Error("Tag is required");
+			}
+
+			const files: Array<{ path: string; uri: string }> = [];
+			for (const file of app.vault.getMarkdownFiles()) {
+				if (!security.isAccessible(file.path)) continue;
+
+				const cache = app.metadataCache.getFileCache(file);
+				const tags = cache ? getAllTags(cache) ?? [] : [];
+				const matches = tags.some((t) => {
+					const normalized = t.toLowerCase();
+					return normalized === tag || normalized.startsWith(`${tag}/`);
+				});
+				if (matches) {
+					files.push({ path: file.path, uri: noteUri(file.path) });
+				}
+			}
+
+			return Promise.resolve(JSON.stringify(
+				{
+					tag,
+					files: files.sort((a, b) => a.path.localeCompare(b.path)),
+				},
+				null,
+				2
+			));
+		}
+	);
+
 	// dataview-reference resource
 	registerResource(
 		{
@@ -86,9 +224,8 @@ The Dataview plugin is not installed or enabled in this vault.
 To use DQL queries:
 1. Install the Dataview plugin from Obsidian's Community Plugins
 2. Enable the plugin in Settings > Community Plugins
-3. Restart the MCP server
 
-Once installed, you can use the \`dataview_query\` tool to run DQL queries.`);
+Once enabled, the \`dataview_query\` tool appears automatically and you can use it to run DQL queries.`);
 			}
 
 			return Promise.resolve(`# Dataview Query Language (DQL) Reference
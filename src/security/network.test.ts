@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { IpAllowlist, isLoopbackAddress, isOriginAllowed } from "./network";
+
+describe("isLoopbackAddress", () => {
+	it("accepts loopback hosts and addresses", () => {
+		expect(isLoopbackAddress("localhost")).toBe(true);
+		expect(isLoopbackAddress("127.0.0.1")).toBe(true);
+		expect(isLoopbackAddress("127.8.9.10")).toBe(true);
+		expect(isLoopbackAddress("::1")).toBe(true);
+		expect(isLoopbackAddress("::ffff:127.0.0.1")).toBe(true);
+	});
+
+	it("rejects other addresses", () => {
+		expect(isLoopbackAddress("0.0.0.0")).toBe(false);
+		expect(isLoopbackAddress("192.168.1.10")).toBe(false);
+		expect(isLoopbackAddress("::ffff:10.0.0.1")).toBe(false);
+		expect(isLoopbackAddress("128.0.0.1")).toBe(false);
+	});
+});
+
+describe("IpAllowlist", () => {
+	it("matches single addresses and CIDR ranges", () => {
+		const list = new IpAllowlist(["192.168.1.0/24", "10.0.0.5", "fd00::/8"]);
+		expect(list.isEmpty).toBe(false);
+		expect(list.invalid).toEqual([]);
+		expect(list.has("192.168.1.200")).toBe(true);
+		expect(list.has("192.168.2.1")).toBe(false);
+		expect(list.has("10.0.0.5")).toBe(true);
+		expect(list.has("10.0.0.6")).toBe(false);
+		expect(list.has("fd12::1")).toBe(true);
+	});
+
+	it("matches IPv4 clients reported as IPv4-mapped IPv6", () => {
+		const list = new IpAllowlist(["172.17.0.0/16"]);
+		expect(list.has("::ffff:172.17.3.4")).toBe(true);
+	});
+
+	it("collects invalid entries", () => {
+		const list = new IpAllowlist(["192.168.1.0/33", "not-an-ip", "10.0.0.0/8", "10.0.0.0/x"]);
+		expect(list.invalid).toEqual(["192.168.1.0/33", "not-an-ip", "10.0.0.0/x"]);
+		expect(list.has("10.1.2.3")).toBe(true);
+	});
+
+	it("is only empty without entries", () => {
+		expect(new IpAllowlist([]).isEmpty).toBe(true);
+	});
+
+	it("allows no one when no entry is valid", () => {
+		const list = new IpAllowlist(["192.168.1.0/33"]);
+		expect(list.isEmpty).toBe(false);
+		expect(list.has("192.168.1.1")).toBe(false);
+	});
+
+	it("rejects values that are not addresses", () => {
+		expect(new IpAllowlist(["0.0.0.0/0"]).has("garbage")).toBe(false);
+	});
+});
+
+describe("isOriginAllowed", () => {
+	it("always allows loopback origins", () => {
+		expect(isOriginAllowed("http://localhost:3000", [])).toBe(true);
+		expect(isOriginAllowed("https://127.0.0.1", [])).toBe(true);
+		expect(isOriginAllowed("http://[::1]:8080", [])).toBe(true);
+	});
+
+	it("allows listed origins only", () => {
+		const allowed = ["https://example.com/"];
+		expect(isOriginAllowed("https://example.com", allowed)).toBe(true);
+		expect(isOriginAllowed("https://example.com.evil.test", allowed)).toBe(false);
+		expect(isOriginAllowed("http://example.com", allowed)).toBe(false);
+	});
+
+	it("rejects loopback host names on other schemes and malformed origins", () => {
+		expect(isOriginAllowed("file://localhost", [])).toBe(false);
+		expect(isOriginAllowed("null", [])).toBe(false);
+	});
+
+	it("allows any origin with *", () => {
+		expect(isOriginAllowed("https://anything.test", ["*"])).toBe(true);
+	});
+});
@@ -0,0 +1,74 @@
+import { BlockList, isIP } from "net";
+
+/**
+ * Hostnames that always refer to this machine
+ */
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]", "::1"]);
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix Node reports for IPv4 clients on dual-stack sockets
+ */
+function normalizeAddress(address: string): string {
+	return address.startsWith("::ffff:") && isIP(address.slice(7)) === 4 ? address.slice(7) : address;
+}
+
+/**
+ * Whether a bind or client address only reaches this machine
+ */
+export function isLoopbackAddress(address: string): boolean {
+	const normalized = normalizeAddress(address);
+	return LOOPBACK_HOSTS.has(normalized) || (isIP(normalized) === 4 && normalized.startsWith("127."));
+}
+
+/**
+ * Set of client addresses built from CIDR ranges or single addresses (IPv4 or IPv6)
+ */
+export class IpAllowlist {
+	private blockList = new BlockList();
+	/** Entries that could not be parsed */
+	readonly invalid: string[] = [];
+	/** No entries configured (a list of only invalid entries is not empty and allows no one) */
+	readonly isEmpty: boolean;
+
+	constructor(entries: string[]) {
+		this.isEmpty = entries.length === 0;
+		for (const entry of entries) {
+			const [address = "", prefix] = entry.split("/");
+			const family = isIP(address);
+			const bits = prefix === undefined ? (family === 6 ? 128 : 32) : Number(prefix);
+			if (!family || !Number.isInteger(bits) || bits < 0 || bits > (family === 6 ? 128 : 32)) {
+				this.invalid.push(entry);
+				continue;
+			}
+			this.blockList.addSubnet(address, bits, family === 6 ? "ipv6" : "ipv4");
+		}
+	}
+
+	has(address: string): boolean {
+		const normalized = normalizeAddress(address);
+		const family = isIP(normalized);
+		return family !== 0 && this.blockList.check(normalized, family === 6 ? "ipv6" : "ipv4");
+	}
+}
+
+/**
+ * Whether a browser Origin may call the server: loopback origins are always allowed,
+ * other origins only when listed (or when the list contains "*")
+ */
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+	if (allowedOrigins.includes("*")) {
+		return true;
+	}
+
+	let url: URL;
+	try {
+		url = new URL(origin);
+	} catch {
+		return false;
+	}
+
+	if ((url.protocol === "http:" || url.protocol === "https:") && LOOPBACK_HOSTS.has(url.hostname)) {
+		return true;
+	}
+	return allowedOrigins.some((allowed) => allowed.replace(/\/+$/, "") === url.origin);
+}
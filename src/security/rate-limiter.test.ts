@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimitError, RateLimitPolicy, RateLimiter } from "./rate-limiter";
+
+const POLICY: RateLimitPolicy = {
+	enabled: true,
+	scope: "key",
+	perMinute: 3,
+	searchPerMinute: 1,
+	writePerMinute: 2,
+	maxConcurrent: 0,
+};
+
+/**
+ * Acquire a slot and release it right away
+ */
+function call(limiter: RateLimiter, key: string, sessionId: string, category: "search" | "write" | "read" = "read"): void {
+	limiter.acquire(key, sessionId, category).release();
+}
+
+/**
+ * Number of buckets the limiter keeps
+ */
+function bucketCount(limiter: RateLimiter): number {
+	return (limiter as unknown as { windows: Map<string, number[]> }).windows.size;
+}
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe("RateLimiter", () => {
+	it("rejects calls over the per-minute limit with a retry delay", () => {
+		const limiter = new RateLimiter(POLICY);
+		call(limiter, "key-a", "s1");
+		vi.advanceTimersByTime(20_000);
+		call(limiter, "key-a", "s1");
+		call(limiter, "key-a", "s1");
+
+		let error: unknown;
+		try {
+			call(limiter, "key-a", "s1");
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(RateLimitError);
+		expect((error as RateLimitError).retryAfter).toBe(40);
+	});
+
+	it("admits calls again once the window has passed", () => {
+		const limiter = new RateLimiter(POLICY);
+		for (let i = 0; i < 3; i++) call(limiter, "key-a", "s1");
+		vi.advanceTimersByTime(60_001);
+		expect(() => call(limiter, "key-a", "s1")).not.toThrow();
+	});
+
+	it("shares the limit between sessions of a key, but not between keys", () => {
+		const limiter = new RateLimiter(POLICY);
+		call(limiter, "key-a", "s1");
+		call(limiter, "key-a", "s2");
+		call(limiter, "key-a", "s3");
+		expect(() => call(limiter, "key-a", "s4")).toThrow(RateLimitError);
+		expect(() => call(limiter, "key-b", "s5")).not.toThrow();
+	});
+
+	it("counts per session with the session scope", () => {
+		const limiter = new RateLimiter({ ...POLICY, scope: "session" });
+		for (let i = 0; i < 3; i++) call(limiter, "key-a", "s1");
+		expect(() => call(limiter, "key-a", "s1")).toThrow(RateLimitError);
+		expect(() => call(limiter, "key-a", "s2")).not.toThrow();
+	});
+
+	it("applies the search and write limits on top of the overall one", () => {
+		const limiter = new RateLimiter({ ...POLICY, perMinute: 10 });
+		call(limiter, "key-a", "s1", "search");
+		expect(() => call(limiter, "key-a", "s1", "search")).toThrow(/1 search calls per minute/);
+		call(limiter, "key-a", "s1", "write");
+		call(limiter, "key-a", "s1", "write");
+		expect(() => call(limiter, "key-a", "s1", "write")).toThrow(/2 write calls per minute/);
+		expect(() => call(limiter, "key-a", "s1")).not.toThrow();
+	});
+
+	it("does not count rejected calls", () => {
+		const limiter = new RateLimiter({ ...POLICY, perMinute: 2, searchPerMinute: 1 });
+		call(limiter, "key-a", "s1", "search");
+		expect(() => call(limiter, "key-a", "s1", "search")).toThrow(RateLimitError);
+		expect(() => call(limiter, "key-a", "s1")).not.toThrow();
+	});
+
+	it("limits calls in flight and frees slots while suspended", () => {
+		const limiter = new RateLimiter({ ...POLICY, perMinute: 0, maxConcurrent: 1 });
+		const slot = limiter.acquire("key-a", "s1", "read");
+		expect(() => limiter.acquire("key-a", "s1", "read")).toThrow(/in progress/);
+
+		const resume = slot.suspend();
+		const other = limiter.acquire("key-b", "s2", "read");
+		// A resumed call takes its slot back even over the limit
+		resume();
+		other.release();
+		expect(() => limiter.acquire("key-a", "s1", "read")).toThrow(/in progress/);
+
+		slot.release();
+		slot.release();
+		expect(() => limiter.acquire("key-a", "s1", "read").release()).not.toThrow();
+	});
+
+	it("does not take a slot back after release", () => {
+		const limiter = new RateLimiter({ ...POLICY, perMinute: 0, maxConcurrent: 1 });
+		const slot = limiter.acquire("key-a", "s1", "read");
+		const resume = slot.suspend();
+		slot.release();
+		resume();
+		expect(() => limiter.acquire("key-a", "s1", "read").release()).not.toThrow();
+	});
+
+	it("drops the buckets of closed sessions", () => {
+		const limiter = new RateLimiter({ ...POLICY, scope: "session" });
+		call(limiter, "key-a", "s1", "search");
+		call(limiter, "key-a", "s2");
+		limiter.forgetSession("s1");
+		expect(bucketCount(limiter)).toBe(1);
+	});
+
+	it("drops buckets that have been idle for a window", () => {
+		const limiter = new RateLimiter(POLICY);
+		call(limiter, "key-a", "s1", "write");
+		call(limiter, "key-b", "s2");
+		expect(bucketCount(limiter)).toBe(3);
+
+		vi.advanceTimersByTime(60_001);
+		call(limiter, "key-c", "s3");
+		expect(bucketCount(limiter)).toBe(1);
+	});
+
+	it("counts nothing while disabled", () => {
+		const limiter = new RateLimiter({ ...POLICY, enabled: false });
+		for (let i = 0; i < 10; i++) call(limiter, "key-a", "s1");
+		expect(bucketCount(limiter)).toBe(0);
+	});
+});
@@ -0,0 +1,189 @@
+import { createHash } from "crypto";
+
+/**
+ * JSON-RPC error code returned for calls over a rate or concurrency limit
+ */
+export const RATE_LIMITED_ERROR_CODE = -32029;
+
+const WINDOW_MS = 60_000;
+
+export interface RateLimitPolicy {
+	enabled: boolean;
+	/** Count calls per API key (shared by its sessions) or per session */
+	scope: "key" | "session";
+	/** Tool calls per minute (0 = unlimited) */
+	perMinute: number;
+	/** Calls per minute to the search tools below (0 = unlimited) */
+	searchPerMinute: number;
+	/** Calls per minute to tools that are not read-only (0 = unlimited) */
+	writePerMinute: number;
+	/** Tool calls running at the same time across all sessions (0 = unlimited) */
+	maxConcurrent: number;
+}
+
+/**
+ * Tools that are expensive enough to get their own, stricter limit
+ */
+export const SEARCH_TOOLS = ["vault_search", "dataview_query"];
+
+export type RateLimitCategory = "search" | "write" | "read";
+
+/**
+ * Thrown when a call is over a limit
+ */
+export class RateLimitError extends Error {
+	/** Seconds after which the call may succeed */
+	readonly retryAfter: number;
+
+	constructor(message: string, retryAfter: number) {
+		super(message);
+		this.name = "RateLimitError";
+		this.retryAfter = retryAfter;
+	}
+}
+
+/**
+ * Place of an admitted call among the calls in flight
+ */
+export interface RateLimitSlot {
+	/** Free the slot once the call has finished */
+	release(): void;
+	/**
+	 * Free the slot while the call waits on the user (such as for approval)
+	 * @returns Function that takes the slot back when the call continues
+	 */
+	suspend(): () => void;
+}
+
+/**
+ * Sliding-window rate limits per key or session, plus a global cap on calls in flight
+ */
+export class RateLimiter {
+	private policy: RateLimitPolicy;
+	/** Bucket -> start times of the calls in the last minute */
+	private windows = new Map<string, number[]>();
+	private inFlight = 0;
+	private lastSweep = 0;
+
+	constructor(policy: RateLimitPolicy) {
+		this.policy = policy;
+	}
+
+	/**
+	 * Update the limits (calls already counted stay in their windows)
+	 */
+	setPolicy(policy: RateLimitPolicy): void {
+		this.policy = policy;
+	}
+
+	/**
+	 * Count a call against the limits
+	 * @param key API key making the call (the key itself, or oauth:<grant id>), so renaming it keeps its bucket
+	 * @returns Slot to release when the tool call has finished
+	 * @throws RateLimitError if the call is over a limit
+	 */
+	acquire(key: string, sessionId: string, category: RateLimitCategory): RateLimitSlot {
+		if (!this.policy.enabled) {
+			return { release: () => {}, suspend: () => () => {} };
+		}
+
+		if (this.policy.maxConcurrent > 0 && this.inFlight >= this.policy.maxConcurrent) {
+			throw new RateLimitError(
+				`Too many tool calls in progress (limit: ${this.policy.maxConcurrent})`,
+				1
+			);
+		}
+
+		const now = Date.now();
+		this.sweep(now);
+		// Buckets hold a hash rather than the key itself
+		const owner =
+			this.policy.scope === "key"
+				? `key:${createHash("sha256").update(key).digest("hex").slice(0, 16)}`
+				: `session:${sessionId}`;
+		const checks: Array<{ bucket: string; limit: number; label: string }> = [
+			{ bucket: owner, limit: this.policy.perMinute, label: "tool calls" },
+		];
+		if (category === "search") {
+			checks.push({ bucket: `${owner}:search`, limit: this.policy.searchPerMinute, label: "search calls" });
+		} else if (category === "write") {
+			checks.push({ bucket: `${owner}:write`, limit: this.policy.writePerMinute, label: "write calls" });
+		}
+
+		// Check every limit before counting so a rejected call uses no quota
+		for (const { bucket, limit, label } of checks) {
+			const window = this.prune(bucket, now);
+			if (limit > 0 && window.length >= limit) {
+				const retryAfter = Math.max(1, Math.ceil(((window[0] ?? now) + WINDOW_MS - now) / 1000));
+				throw new RateLimitError(`Rate limit exceeded: ${limit} ${label} per minute`, retryAfter);
+			}
+		}
+
+		for (const { bucket } of checks) {
+			const window = this.prune(bucket, now);
+			window.push(now);
+			this.windows.set(bucket, window);
+		}
+		this.inFlight++;
+
+		// An admitted call takes its slot back after a wait even if others have filled up the limit meanwhile
+		let held = true;
+		let released = false;
+		const free = () => {
+			if (held) {
+				held = false;
+				this.inFlight--;
+			}
+		};
+		return {
+			release: () => {
+				released = true;
+				free();
+			},
+			suspend: () => {
+				free();
+				return () => {
+					if (!held && !released) {
+						held = true;
+						this.inFlight++;
+					}
+				};
+			},
+		};
+	}
+
+	/**
+	 * Forget the windows of a closed session
+	 */
+	forgetSession(sessionId: string): void {
+		for (const bucket of this.windows.keys()) {
+			if (bucket === `session:${sessionId}` || bucket.startsWith(`session:${sessionId}:`)) {
+				this.windows.delete(bucket);
+			}
+		}
+	}
+
+	/**
+	 * Drop calls older than the window and return the remaining ones (empty buckets are removed)
+	 */
+	private prune(bucket: string, now: number): number[] {
+		const window = (this.windows.get(bucket) ?? []).filter((time) => time > now - WINDOW_MS);
+		if (window.length > 0) {
+			this.windows.set(bucket, window);
+		} else {
+			this.windows.delete(bucket);
+		}
+		return window;
+	}
+
+	/**
+	 * Remove the buckets of keys and sessions that made no calls in the last window (at most once per window)
+	 */
+	private sweep(now: number): void {
+		if (now - this.lastSweep < WINDOW_MS) return;
+		this.lastSweep = now;
+		for (const bucket of [...this.windows.keys()]) {
+			this.prune(bucket, now);
+		}
+	}
+}
@@ -1,5 +1,40 @@
 import { App, normalizePath } from "obsidian";
 import { McpIgnoreManager } from "./mcp-ignore";
+import { ToolError } from "../errors";
+
+/**
+ * Permissions granted to an API key
+ */
+export interface AccessScope {
+	read: boolean;
+	write: boolean;
+	commands: boolean;
+	/** Folders the key may read from (empty = whole vault) */
+	readFolders: string[];
+	/** Folders the key may write to (empty = whole vault) */
+	writeFolders: string[];
+}
+
+export const FULL_ACCESS: AccessScope = {
+	read: true,
+	write: true,
+	commands: true,
+	readFolders: [],
+	writeFolders: [],
+};
+
+/**
+ * Check if a path is inside one of the given folders (empty list allows everything)
+ */
+function isInFolders(path: string, folders: string[]): boolean {
+	if (folders.length === 0) return true;
+
+	return folders.some((folder) => {
+		const normalized = normalizePath(folder);
+		if (!normalized || normalized === "/") return true;
+		return path === normalized || path.startsWith(`${normalized}/`);
+	});
+}
 
 /**
  * Manages security for vault operations
@@ -8,10 +43,29 @@ export class SecurityManager {
 	private app: App;
 	private ignoreManager: McpIgnoreManager;
 	private _readOnlyMode = false;
+	private _scope: AccessScope;
+	private parent: SecurityManager | null;
 
-	constructor(app: App) {
+	constructor(app: App, scope: AccessScope = FULL_ACCESS, parent?: SecurityManager) {
 		this.app = app;
-		this.ignoreManager = new McpIgnoreManager(app);
+		this._scope = scope;
+		this.parent = parent ?? null;
+		// Scoped managers share .mcpignore rules and read-only mode with their parent
+		this.ignoreManager = parent ? parent.ignoreManager : new McpIgnoreManager(app);
+	}
+
+	/**
+	 * Create a security manager restricted to the given API key scope
+	 */
+	forScope(scope: AccessScope): SecurityManager {
+		return new SecurityManager(this.app, scope, this.parent ?? this);
+	}
+
+	/**
+	 * Permissions of the API key this manager is scoped to
+	 */
+	get scope(): AccessScope {
+		return this._scope;
 	}
 
 	/**
@@ -32,18 +86,54 @@ export class SecurityManager {
 	 * Check if read-only mode is enabled
 	 */
 	get readOnlyMode(): boolean {
-		return this._readOnlyMode;
+		return this.parent ? this.parent.readOnlyMode : this._readOnlyMode;
+	}
+
+	/**
+	 * Check if write operations are currently allowed
+	 */
+	get canWrite(): boolean {
+		return !this.readOnlyMode && this._scope.write;
+	}
+
+	/**
+	 * Check if the API key may read notes
+	 */
+	get canRead(): boolean {
+		return this._scope.read;
+	}
+
+	/**
+	 * Check if every note is readable (no folder limits and no .mcpignore rules)
+	 */
+	get canReadWholeVault(): boolean {
+		return this._scope.read && this._scope.readFolders.length === 0 && !this.ignoreManager.isEnabled();
+	}
+
+	/**
+	 * Check if the API key may list and execute commands
+	 */
+	get canUseCommands(): boolean {
+		return this._scope.commands;
 	}
 
 	/**
 	 * Validate a read operation
-	 * @throws Error if operation is blocked
+	 * @throws ToolError if operation is blocked
 	 */
 	validateRead(path: string): string {
 		const normalized = normalizePath(path);
 
 		if (this.ignoreManager.isExcluded(normalized)) {
-			throw new Error(`Access denied: path is blocked by .mcpignore`);
+			throw new ToolError("ACCESS_DENIED", `Access denied: path is blocked by .mcpignore`);
+		}
+
+		if (!this._scope.read) {
+			throw new ToolError("ACCESS_DENIED", `Access denied: API key does not have read permission`);
+		}
+
+		if (!isInFolders(normalized, this._scope.readFolders)) {
+			throw new ToolError("ACCESS_DENIED", `Access denied: path is outside the folders allowed for this API key`);
 		}
 
 		return normalized;
@@ -51,22 +141,30 @@ export class SecurityManager {
 
 	/**
 	 * Validate a write operation (create, update, delete)
-	 * @throws Error if operation is blocked
+	 * @throws ToolError if operation is blocked
 	 */
 	validateWrite(path: string): string {
-		if (this._readOnlyMode) {
-			throw new Error(`Write operation blocked: read-only mode is enabled`);
+		if (this.readOnlyMode) {
+			throw new ToolError("READ_ONLY", `Write operation blocked: read-only mode is enabled`);
+		}
+
+		if (!this._scope.write) {
+			throw new ToolError("ACCESS_DENIED", `Write operation blocked: API key does not have write permission`);
 		}
 
 		const normalized = normalizePath(path);
 
 		if (this.ignoreManager.isExcluded(normalized)) {
-			throw new Error(`Access denied: path is blocked by .mcpignore`);
+			throw new ToolError("ACCESS_DENIED", `Access denied: path is blocked by .mcpignore`);
 		}
 
 		// Prevent writing to .mcpignore
 		if (normalized === ".mcpignore") {
-			throw new Error(`Access denied: cannot modify .mcpignore`);
+			throw new ToolError("ACCESS_DENIED", `Access denied: cannot modify .mcpignore`);
+		}
+
+		if (!isInFolders(normalized, this._scope.writeFolders)) {
+			throw new ToolError("ACCESS_DENIED", `Access denied: path is outside the folders allowed for this API key`);
 		}
 
 		return normalized;
@@ -0,0 +1,106 @@
+import { App, normalizePath } from "obsidian";
+import { X509Certificate, createPrivateKey } from "crypto";
+import { promises as fs } from "fs";
+import { generate } from "selfsigned";
+
+/**
+ * Certificate and private key used by the HTTPS listener
+ */
+export interface TlsCredentials {
+	cert: string;
+	key: string;
+	/** SHA-256 fingerprint of the certificate (colon-separated hex) */
+	fingerprint: string;
+	/** Expiry date of the certificate */
+	validTo: string;
+}
+
+// Validity of generated certificates
+const GENERATED_CERT_DAYS = 825;
+
+/**
+ * Parse a PEM certificate and check that it matches the key
+ * @throws Error if the certificate is invalid or does not match the key
+ */
+function toCredentials(cert: string, key: string): TlsCredentials {
+	const x509 = new X509Certificate(cert);
+	if (!x509.checkPrivateKey(createPrivateKey(key))) {
+		throw new Error("Certificate does not match the private key");
+	}
+	return { cert, key, fingerprint: x509.fingerprint256, validTo: x509.validTo };
+}
+
+/**
+ * Load the certificate generated for this vault, creating it (or replacing an expired,
+ * unreadable or mismatched one) if needed
+ * @param dir Vault-relative folder holding cert.pem and key.pem
+ */
+export async function loadGeneratedCertificate(app: App, dir: string): Promise<TlsCredentials> {
+	const adapter = app.vault.adapter;
+	const certPath = normalizePath(`${dir}/cert.pem`);
+	const keyPath = normalizePath(`${dir}/key.pem`);
+
+	if ((await adapter.exists(certPath)) && (await adapter.exists(keyPath))) {
+		try {
+			const credentials = toCredentials(await adapter.read(certPath), await adapter.read(keyPath));
+			if (new Date(credentials.validTo).getTime() > Date.now()) {
+				return credentials;
+			}
+		} catch (error) {
+			console.warn("Connect MCP: replacing unreadable HTTPS certificate:", error);
+		}
+	}
+
+	return generateCertificate(app, dir);
+}
+
+/**
+ * Generate a new self-signed certificate for localhost and store it in the plugin folder
+ */
+export async function generateCertificate(app: App, dir: string): Promise<TlsCredentials> {
+	const notAfterDate = new Date();
+	notAfterDate.setDate(notAfterDate.getDate() + GENERATED_CERT_DAYS);
+
+	const pems = await generate([{ name: "commonName", value: "localhost" }], {
+		keySize: 2048,
+		algorithm: "sha256",
+		notAfterDate,
+		extensions: [
+			// A leaf certificate: trusting it doesn't let it sign certificates for other hosts
+			{ name: "basicConstraints", cA: false },
+			{ name: "keyUsage", digitalSignature: true, keyEncipherment: true },
+			{ name: "extKeyUsage", serverAuth: true },
+			{
+				name: "subjectAltName",
+				altNames: [
+					{ type: 2, value: "localhost" },
+					{ type: 7, ip: "127.0.0.1" },
+					{ type: 7, ip: "::1" },
+				],
+			},
+		],
+	});
+
+	const adapter = app.vault.adapter;
+	if (!(await adapter.exists(normalizePath(dir)))) {
+		await adapter.mkdir(normalizePath(dir));
+	}
+	await adapter.write(normalizePath(`${dir}/cert.pem`), pems.cert);
+	await adapter.write(normalizePath(`${dir}/key.pem`), pems.private);
+
+	return toCredentials(pems.cert, pems.private);
+}
+
+/**
+ * Load a user-provided certificate and key from absolute file paths
+ */
+export async function loadCustomCertificate(certPath: string, keyPath: string): Promise<TlsCredentials> {
+	if (!certPath || !keyPath) {
+		throw new Error("Set both the certificate and the key file path");
+	}
+	const [cert, key] = await Promise.all([
+		fs.readFile(certPath, "utf8"),
+		fs.readFile(keyPath, "utf8"),
+	]);
+	return toCredentials(cert, key);
+}
@@ -1,24 +1,116 @@
+import { isIP } from "net";
 import { App, PluginSettingTab, Setting } from "obsidian";
 import type DataviewMcpPlugin from "./main";
+import type { AccessScope } from "./security/security-manager";
+import type { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { OAuthGrant } from "./oauth/oauth-provider";
+import { IpAllowlist, isLoopbackAddress } from "./security/network";
+import { SEARCH_TOOLS } from "./security/rate-limiter";
+import type { OutputFormat } from "./tools/output-format";
+
+/**
+ * An additional API key with its own permissions
+ */
+export interface ScopedApiKey extends AccessScope {
+	name: string;
+	key: string;
+}
 
 export interface DataviewMcpSettings {
 	port: number;
+	listenMode: "tcp" | "socket" | "both";
+	socketPath: string;
+	bindAddress: string;
+	allowedOrigins: string[];
+	allowedIps: string[];
 	apiKey: string;
+	apiKeys: ScopedApiKey[];
+	oauthEnabled: boolean;
+	oauthClients: OAuthClientInformationFull[];
+	oauthGrants: OAuthGrant[];
 	autoStart: boolean;
+	sessionIdleTimeout: number;
+	maxSessions: number;
 	readOnlyMode: boolean;
 	allowCommandExecution: boolean;
 	promptsFolder: string;
+	toolsFolder: string;
+	httpsEnabled: boolean;
+	httpsCertSource: "generated" | "custom";
+	httpsCertPath: string;
+	httpsKeyPath: string;
+	auditLogEnabled: boolean;
+	auditRetentionDays: number;
+	auditNotePath: string;
+	approvalEnabled: boolean;
+	approvalTools: string[];
+	approvalFolders: string[];
+	approvalTimeout: number;
+	approvalTrustMinutes: number;
+	rateLimitEnabled: boolean;
+	rateLimitScope: "key" | "session";
+	rateLimitPerMinute: number;
+	rateLimitSearchPerMinute: number;
+	rateLimitWritePerMinute: number;
+	maxConcurrentCalls: number;
+	maxResponseChars: number;
+	/** Largest attachment read by vault_read or stored by vault_attach, in MB (0 = unlimited) */
+	maxAttachmentSize: number;
+	outputFormat: OutputFormat;
 }
 
 export const DEFAULT_SETTINGS: DataviewMcpSettings = {
 	port: 27124,
+	listenMode: "tcp",
+	socketPath: "",
+	bindAddress: "127.0.0.1",
+	allowedOrigins: [],
+	allowedIps: [],
 	apiKey: "",
+	apiKeys: [],
+	oauthEnabled: false,
+	oauthClients: [],
+	oauthGrants: [],
 	autoStart: true,
+	sessionIdleTimeout: 30,
+	maxSessions: 20,
 	readOnlyMode: false,
 	allowCommandExecution: false,
 	promptsFolder: "prompts",
+	toolsFolder: "tools",
+	httpsEnabled: false,
+	httpsCertSource: "generated",
+	httpsCertPath: "",
+	httpsKeyPath: "",
+	auditLogEnabled: true,
+	auditRetentionDays: 30,
+	auditNotePath: "",
+	approvalEnabled: false,
+	approvalTools: ["vault_delete", "folder_delete", "vault_update", "command_execute"],
+	approvalFolders: [],
+	approvalTimeout: 60,
+	approvalTrustMinutes: 10,
+	rateLimitEnabled: true,
+	rateLimitScope: "key",
+	rateLimitPerMinute: 120,
+	rateLimitSearchPerMinute: 30,
+	rateLimitWritePerMinute: 60,
+	maxConcurrentCalls: 4,
+	maxResponseChars: 20000,
+	maxAttachmentSize: 10,
+	outputFormat: "json",
 };
 
+/**
+ * Split a comma-separated list of folders or tool names
+ */
+function parseList(value: string): string[] {
+	return value
+		.split(",")
+		.map((folder) => folder.trim())
+		.filter((folder) => folder.length > 0);
+}
+
 /**
  * Generate a random API key
  */
@@ -46,25 +138,28 @@ export class DataviewMcpSettingTab extends PluginSettingTab {
 		// API Key with Generate button
 		new Setting(containerEl)
 			.setName("API key")
-			.setDesc("Secret key for authenticating requests (required).")
+			.setDesc("Secret key for authenticating requests with full access (required).")
 			.addText((text) => {
 				text
 					.setPlaceholder("Click generate or enter your own")
 					.setValue(this.plugin.settings.apiKey)
 					.onChange(async (value) => {
 						this.plugin.settings.apiKey = value;
-						await this.plugin.saveSettings();
+						await this.saveApiKeys();
 					});
 				text.inputEl.addClass("connect-mcp-api-key-input");
 			})
 			.addButton((button) =>
 				button.setButtonText("Generate").onClick(async () => {
 					this.plugin.settings.apiKey = generateApiKey();
-					await this.plugin.saveSettings();
+					await this.saveApiKeys();
 					this.display(); // Refresh to show new key
 				})
 			);
 
+		this.displayScopedApiKeys(containerEl);
+		this.displayOAuth(containerEl);
+
 		new Setting(containerEl)
 			.setName("Port")
 			.setDesc("Server port (default: 27124).")
@@ -93,6 +188,91 @@ export class DataviewMcpSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Session idle timeout")
+			.setDesc("Minutes without activity before a session is closed (0 = never).")
+			.addText((text) =>
+				text
+					.setPlaceholder("30")
+					.setValue(String(this.plugin.settings.sessionIdleTimeout))
+					.onChange(async (value) => {
+						const minutes = parseInt(value, 10);
+						if (!isNaN(minutes) && minutes >= 0) {
+							this.plugin.settings.sessionIdleTimeout = minutes;
+							await this.plugin.saveSettings();
+							this.plugin.updateSessionLimits();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Maximum sessions")
+			.setDesc("Maximum number of concurrent agent sessions.")
+			.addText((text) =>
+				text
+					.setPlaceholder("20")
+					.setValue(String(this.plugin.settings.maxSessions))
+					.onChange(async (value) => {
+						const max = parseInt(value, 10);
+						if (!isNaN(max) && max > 0) {
+							this.plugin.settings.maxSessions = max;
+							await this.plugin.saveSettings();
+							this.plugin.updateSessionLimits();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Maximum response size")
+			.setDesc(
+				"Characters of note content, query rows, search hits or links returned per tool call (0 = unlimited). Longer results are split into chunks the agent can fetch with a cursor, and agents can override the size per call."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("20000")
+					.setValue(String(this.plugin.settings.maxResponseChars))
+					.onChange(async (value) => {
+						const chars = parseInt(value, 10);
+						if (!isNaN(chars) && chars >= 0) {
+							this.plugin.settings.maxResponseChars = chars;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Maximum attachment size")
+			.setDesc("Largest image, document or other attachment agents can read through vault_read or store through vault_attach, in megabytes (0 = unlimited).")
+			.addText((text) =>
+				text
+					.setPlaceholder("10")
+					.setValue(String(this.plugin.settings.maxAttachmentSize))
+					.onChange(async (value) => {
+						const size = parseFloat(value);
+						if (!isNaN(size) && size >= 0) {
+							this.plugin.settings.maxAttachmentSize = size;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Output format")
+			.setDesc(
+				"How tool results are written for agents. Compact and Markdown use fewer tokens. Sessions can choose another format with the X-Output-Format header, and calls with the format argument."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("json", "JSON (indented)")
+					.addOption("compact", "Compact JSON")
+					.addOption("markdown", "Markdown")
+					.setValue(this.plugin.settings.outputFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.outputFormat = value as OutputFormat;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Read-only mode")
 			.setDesc("Block all write operations (create, update, delete).")
@@ -108,13 +288,14 @@ export class DataviewMcpSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName("Allow command execution")
-			.setDesc("Allow agents to execute app commands. Requires server restart.")
+			.setDesc("Allow agents to execute app commands.")
 			.addToggle((toggle) =>
 				toggle
 					.setValue(this.plugin.settings.allowCommandExecution)
 					.onChange(async (value) => {
 						this.plugin.settings.allowCommandExecution = value;
 						await this.plugin.saveSettings();
+						this.plugin.refreshTools();
 					})
 			);
 
@@ -131,12 +312,29 @@ export class DataviewMcpSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Tools folder")
+			.setDesc("Folder containing notes that define custom tools for agents.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Tools")
+					.setValue(this.plugin.settings.toolsFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.toolsFolder = value || "tools";
+						await this.plugin.saveSettings();
+						this.plugin.updateToolsFolder();
+					})
+			);
+
+		this.displayHttps(containerEl);
+		this.displayNetwork(containerEl);
+
 		// Server status and control
 		new Setting(containerEl)
 			.setName("Server status")
 			.setDesc(
 				this.plugin.isServerRunning()
-					? `Server running on port ${this.plugin.settings.port}.`
+					? `Server running on ${this.describeListeners()}.`
 					: "Server is stopped."
 			)
 			.addButton((button) =>
@@ -152,29 +350,162 @@ export class DataviewMcpSettingTab extends PluginSettingTab {
 					})
 			);
 
+		if (this.plugin.isServerRunning()) {
+			this.displaySessions(containerEl);
+		}
+
+		this.displayRateLimits(containerEl);
+
+		// Approval
+		new Setting(containerEl).setName("Approval").setHeading();
+
+		new Setting(containerEl)
+			.setName("Ask before sensitive calls")
+			.setDesc("Show a confirmation dialog with a preview of the change before the tools below run.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.approvalEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.approvalEnabled = value;
+						await this.plugin.saveSettings();
+						this.plugin.updateApprovalPolicy();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Tools requiring approval")
+			.setDesc("Comma-separated tool names.")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("Tool names")
+					.setValue(this.plugin.settings.approvalTools.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.approvalTools = parseList(value);
+						await this.plugin.saveSettings();
+						this.plugin.updateApprovalPolicy();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Folders requiring approval")
+			.setDesc("Only ask for calls that target these comma-separated folders (empty = whole vault). Calls without a target path always ask.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Projects/clients")
+					.setValue(this.plugin.settings.approvalFolders.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.approvalFolders = parseList(value);
+						await this.plugin.saveSettings();
+						this.plugin.updateApprovalPolicy();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Approval timeout")
+			.setDesc("Seconds before an unanswered request is rejected (0 = wait indefinitely).")
+			.addText((text) =>
+				text
+					.setPlaceholder("60")
+					.setValue(String(this.plugin.settings.approvalTimeout))
+					.onChange(async (value) => {
+						const seconds = parseInt(value, 10);
+						if (!isNaN(seconds) && seconds >= 0) {
+							this.plugin.settings.approvalTimeout = seconds;
+							await this.plugin.saveSettings();
+							this.plugin.updateApprovalPolicy();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Session trust duration")
+			.setDesc("Minutes a session is trusted after choosing \"approve and trust\" (0 = disable the option).")
+			.addText((text) =>
+				text
+					.setPlaceholder("10")
+					.setValue(String(this.plugin.settings.approvalTrustMinutes))
+					.onChange(async (value) => {
+						const minutes = parseInt(value, 10);
+						if (!isNaN(minutes) && minutes >= 0) {
+							this.plugin.settings.approvalTrustMinutes = minutes;
+							await this.plugin.saveSettings();
+							this.plugin.updateApprovalPolicy();
+						}
+					})
+			);
+
+		// Audit log
+		new Setting(containerEl).setName("Audit log").setHeading();
+
+		new Setting(containerEl)
+			.setName("Record tool calls")
+			.setDesc("Keep a log of every tool call (session, arguments, target paths, result and duration) in the plugin folder.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.auditLogEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.auditLogEnabled = value;
+						await this.plugin.saveSettings();
+						this.plugin.updateAuditLogOptions();
+					})
+			)
+			.addButton((button) =>
+				button.setButtonText("View log").onClick(() => {
+					this.plugin.openAuditLog();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Retention")
+			.setDesc("Days to keep audit entries (0 = keep forever).")
+			.addText((text) =>
+				text
+					.setPlaceholder("30")
+					.setValue(String(this.plugin.settings.auditRetentionDays))
+					.onChange(async (value) => {
+						const days = parseInt(value, 10);
+						if (!isNaN(days) && days >= 0) {
+							this.plugin.settings.auditRetentionDays = days;
+							await this.plugin.saveSettings();
+							this.plugin.updateAuditLogOptions();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Mirror to note")
+			.setDesc("Also append each entry to this vault note (leave empty to disable).")
+			.addText((text) =>
+				text
+					.setPlaceholder("Logs/MCP audit.md")
+					.setValue(this.plugin.settings.auditNotePath)
+					.onChange(async (value) => {
+						this.plugin.settings.auditNotePath = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.updateAuditLogOptions();
+					})
+			);
+
 		// Client configuration
 		new Setting(containerEl).setName("Client configuration").setHeading();
 
-		new Setting(containerEl).setDesc("Add this to your AI assistant's settings:");
-
-		const configPre = containerEl.createEl("pre");
-		configPre.addClass("connect-mcp-code-block");
-		configPre.setText(`{
-  "mcpServers": {
-    "obsidian": {
-      "command": "npx",
-      "args": [
-        "mcp-remote",
-        "http://localhost:${this.plugin.settings.port}/mcp",
-        "--header",
-        "Authorization:\${AUTH}"
-      ],
-      "env": {
-        "AUTH": "Bearer ${this.plugin.settings.apiKey || "YOUR_API_KEY"}"
-      }
-    }
-  }
-}`);
+		if (this.plugin.settings.listenMode !== "socket") {
+			new Setting(containerEl).setDesc("Add this to your AI assistant's settings:");
+
+			const configPre = containerEl.createEl("pre");
+			configPre.addClass("connect-mcp-code-block");
+			configPre.setText(this.buildClientConfig());
+		}
+
+		if (this.plugin.settings.listenMode !== "tcp") {
+			new Setting(containerEl).setDesc(
+				"MCP clients can't connect to a socket directly. Check the socket with curl, and bridge it to a local port (for example with socat) for clients to connect to:"
+			);
+
+			const socketPre = containerEl.createEl("pre");
+			socketPre.addClass("connect-mcp-code-block");
+			socketPre.setText(this.buildSocketClientConfig());
+		}
 
 		// Prompts help
 		new Setting(containerEl).setName("Prompts").setHeading();
@@ -202,6 +533,29 @@ description: Brief description for the agent to see
 ## Useful Dataview queries
 \`\`\`dataview
 TABLE status, due FROM "Projects" WHERE status != "done"
+\`\`\``);
+
+		// Custom tools help
+		new Setting(containerEl).setName("Custom tools").setHeading();
+
+		new Setting(containerEl).setDesc(
+			`Notes in the "${this.plugin.settings.toolsFolder}" folder with a type of query, template or sequence become tools. Parameters are a JSON schema; use {{parameter}} placeholders in the body.`
+		);
+
+		const toolFormat = containerEl.createEl("pre");
+		toolFormat.addClass("connect-mcp-code-block");
+		toolFormat.setText(`---
+name: open_tasks_for_client
+description: Open tasks for a client
+type: query
+parameters:
+  properties:
+    client: { type: string }
+  required: [client]
+---
+
+\`\`\`dataview
+TASK FROM "Clients" WHERE client = {{client}} AND !completed
 \`\`\``);
 
 		// Security help
@@ -220,4 +574,547 @@ journal/
 # Block specific files
 secrets.md`);
 	}
+
+	private displayRateLimits(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName("Rate limits").setHeading();
+
+		new Setting(containerEl)
+			.setName("Limit tool calls")
+			.setDesc("Reject calls over the limits below with an error telling the agent when to retry.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.rateLimitEnabled).onChange(async (value) => {
+					this.plugin.settings.rateLimitEnabled = value;
+					await this.plugin.saveSettings();
+					this.plugin.updateRateLimits();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Count calls per")
+			.setDesc("Share the limits between all sessions of an API key, or apply them to each session.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("key", "API key")
+					.addOption("session", "Session")
+					.setValue(this.plugin.settings.rateLimitScope)
+					.onChange(async (value) => {
+						this.plugin.settings.rateLimitScope = value as "key" | "session";
+						await this.plugin.saveSettings();
+						this.plugin.updateRateLimits();
+					})
+			);
+
+		const limits: Array<{
+			name: string;
+			desc: string;
+			key: "rateLimitPerMinute" | "rateLimitSearchPerMinute" | "rateLimitWritePerMinute" | "maxConcurrentCalls";
+		}> = [
+			{ name: "Calls per minute", desc: "All tool calls (0 = unlimited).", key: "rateLimitPerMinute" },
+			{
+				name: "Search calls per minute",
+				desc: `Calls to ${SEARCH_TOOLS.join(" and ")} (0 = unlimited).`,
+				key: "rateLimitSearchPerMinute",
+			},
+			{
+				name: "Write calls per minute",
+				desc: "Calls to tools that can change the vault (0 = unlimited).",
+				key: "rateLimitWritePerMinute",
+			},
+			{
+				name: "Concurrent calls",
+				desc: "Tool calls running at the same time across all sessions (0 = unlimited).",
+				key: "maxConcurrentCalls",
+			},
+		];
+
+		for (const limit of limits) {
+			new Setting(containerEl)
+				.setName(limit.name)
+				.setDesc(limit.desc)
+				.addText((text) =>
+					text
+						.setPlaceholder(String(DEFAULT_SETTINGS[limit.key]))
+						.setValue(String(this.plugin.settings[limit.key]))
+						.onChange(async (value) => {
+							const count = parseInt(value, 10);
+							if (!isNaN(count) && count >= 0) {
+								this.plugin.settings[limit.key] = count;
+								await this.plugin.saveSettings();
+								this.plugin.updateRateLimits();
+							}
+						})
+				);
+		}
+	}
+
+	private displayHttps(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("HTTPS")
+			.setDesc("Serve the MCP endpoint over TLS. Requires server restart.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.httpsEnabled).onChange(async (value) => {
+					this.plugin.settings.httpsEnabled = value;
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		if (!this.plugin.settings.httpsEnabled) return;
+
+		new Setting(containerEl)
+			.setName("Certificate")
+			.setDesc("Use a self-signed certificate generated for localhost, or your own certificate and key.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("generated", "Self-signed (generated)")
+					.addOption("custom", "Custom files")
+					.setValue(this.plugin.settings.httpsCertSource)
+					.onChange(async (value) => {
+						this.plugin.settings.httpsCertSource = value as "generated" | "custom";
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.httpsCertSource === "custom") {
+			new Setting(containerEl)
+				.setName("Certificate file")
+				.setDesc("Absolute path of the certificate in pem format, including any intermediate certificates.")
+				.addText((text) =>
+					text
+						.setPlaceholder("Certificate path")
+						.setValue(this.plugin.settings.httpsCertPath)
+						.onChange(async (value) => {
+							this.plugin.settings.httpsCertPath = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("Key file")
+				.setDesc("Absolute path of the private key in pem format.")
+				.addText((text) =>
+					text
+						.setPlaceholder("Key path")
+						.setValue(this.plugin.settings.httpsKeyPath)
+						.onChange(async (value) => {
+							this.plugin.settings.httpsKeyPath = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		const credentials = this.plugin.getTlsCredentials();
+		const fingerprint = new Setting(containerEl)
+			.setName("Certificate fingerprint")
+			.setDesc(
+				credentials
+					? `SHA-256 ${credentials.fingerprint} (valid until ${new Date(credentials.validTo).toLocaleDateString()})`
+					: "Shown once the server is running with HTTPS."
+			);
+
+		if (this.plugin.settings.httpsCertSource === "generated") {
+			fingerprint.addButton((button) =>
+				button.setButtonText("Regenerate").onClick(async () => {
+					await this.plugin.regenerateCertificate();
+					this.display();
+				})
+			);
+		}
+	}
+
+	private displayNetwork(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Listen on")
+			.setDesc(
+				"Accept connections on the network port, on a local socket file that only the current user can open, or both. Sockets are not available on Windows. Requires server restart."
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("tcp", "Network port")
+					.addOption("socket", "Local socket")
+					.addOption("both", "Both")
+					.setValue(this.plugin.settings.listenMode)
+					.onChange(async (value) => {
+						this.plugin.settings.listenMode = value as "tcp" | "socket" | "both";
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.listenMode !== "tcp") {
+			new Setting(containerEl)
+				.setName("Socket path")
+				.setDesc(`Absolute path of the socket file. Leave empty for ${this.plugin.getSocketPath()}.`)
+				.addText((text) =>
+					text
+						.setPlaceholder("Default path")
+						.setValue(this.plugin.settings.socketPath)
+						.onChange(async (value) => {
+							this.plugin.settings.socketPath = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		if (this.plugin.settings.listenMode === "socket") return;
+
+		new Setting(containerEl)
+			.setName("Bind address")
+			.setDesc(
+				"Interface the server listens on. Use 0.0.0.0 (or ::) to accept connections from containers, virtual machines or other devices. Requires server restart."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("127.0.0.1")
+					.setValue(this.plugin.settings.bindAddress)
+					.onChange(async (value) => {
+						const address = value.trim() || "127.0.0.1";
+						if (address === "localhost" || isIP(address)) {
+							this.plugin.settings.bindAddress = address;
+							await this.plugin.saveSettings();
+							updateWarning();
+						}
+					})
+			);
+
+		const warningEl = containerEl.createDiv({ cls: "connect-mcp-warning" });
+		warningEl.setText(
+			"Warning: the server is reachable from other machines. Anyone who can reach this address and has an API key gets access to your vault. Restrict callers with allowed client IPs, and enable HTTPS so keys are not sent in clear text."
+		);
+		const updateWarning = (): void => {
+			warningEl.toggle(!isLoopbackAddress(this.plugin.settings.bindAddress));
+		};
+		updateWarning();
+
+		new Setting(containerEl)
+			.setName("Allowed origins")
+			.setDesc(
+				"Comma-separated browser origins allowed to call the server, e.g. https://example.com. Loopback origins are always allowed, and requests without an origin (non-browser clients) are not affected. Use * to allow any origin."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Origins")
+					.setValue(this.plugin.settings.allowedOrigins.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.allowedOrigins = parseList(value);
+						await this.plugin.saveSettings();
+						this.plugin.updateAllowedOrigins();
+					})
+			);
+
+		let ipsInput: HTMLInputElement | null = null;
+		const allowedIpsSetting = new Setting(containerEl)
+			.setName("Allowed client IPs")
+			.setDesc(
+				"Comma-separated addresses or CIDR ranges (e.g. 192.168.1.0/24, 172.17.0.0/16) of remote clients allowed to connect. Loopback is always allowed; empty allows any client. Requires server restart."
+			)
+			.addText((text) => {
+				ipsInput = text.inputEl;
+				text
+					.setPlaceholder("Address ranges")
+					.setValue(this.plugin.settings.allowedIps.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.allowedIps = parseList(value);
+						showInvalidIps();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// Invalid entries are kept but ignored by the server (if none are valid, only loopback can connect)
+		const invalidIpsEl = allowedIpsSetting.descEl.createDiv({ cls: "connect-mcp-invalid-message" });
+		const showInvalidIps = () => {
+			const invalid = new IpAllowlist(this.plugin.settings.allowedIps).invalid;
+			ipsInput?.toggleClass("connect-mcp-invalid", invalid.length > 0);
+			invalidIpsEl.setText(invalid.length > 0 ? `Invalid entries (ignored): ${invalid.join(", ")}` : "");
+		};
+		showInvalidIps();
+	}
+
+	private describeListeners(): string {
+		const { listenMode, port } = this.plugin.settings;
+		if (listenMode === "socket") return this.plugin.getSocketPath();
+		if (listenMode === "both") return `port ${port} and ${this.plugin.getSocketPath()}`;
+		return `port ${port}`;
+	}
+
+	/**
+	 * Client configuration for mcp-remote matching the current server settings
+	 */
+	private buildClientConfig(): string {
+		const { settings } = this.plugin;
+		const scheme = settings.httpsEnabled ? "https" : "http";
+		const env: Record<string, string> = {
+			AUTH: `Bearer ${settings.apiKey || "YOUR_API_KEY"}`,
+		};
+
+		// Node-based clients must be told to trust the self-signed certificate
+		const certPath = settings.httpsEnabled ? this.plugin.getCertificatePath() : null;
+		if (certPath && settings.httpsCertSource === "generated") {
+			env.NODE_EXTRA_CA_CERTS = certPath;
+		}
+
+		return JSON.stringify(
+			{
+				mcpServers: {
+					obsidian: {
+						command: "npx",
+						args: [
+							"mcp-remote",
+							`${scheme}://localhost:${settings.port}/mcp`,
+							"--header",
+							"Authorization:${AUTH}",
+						],
+						env,
+					},
+				},
+			},
+			null,
+			2
+		);
+	}
+
+	/**
+	 * Connection details for clients that speak HTTP over the Unix domain socket
+	 */
+	private buildSocketClientConfig(): string {
+		const { settings } = this.plugin;
+		const socketPath = this.plugin.getSocketPath();
+		const authorization = `Bearer ${settings.apiKey || "YOUR_API_KEY"}`;
+		// Next to the TCP listener, the bridge needs a port of its own
+		const bridgePort = settings.listenMode === "both" ? settings.port + 1 : settings.port;
+		const config = JSON.stringify(
+			{
+				mcpServers: {
+					obsidian: {
+						command: "npx",
+						args: ["mcp-remote", `http://127.0.0.1:${bridgePort}/mcp`, "--header", "Authorization:${AUTH}"],
+						env: { AUTH: authorization },
+					},
+				},
+			},
+			null,
+			2
+		);
+
+		return `# Check the connection
+curl --unix-socket "${socketPath}" -H "Authorization: ${authorization}" http://localhost/health
+
+# Bridge the socket to a port only reachable from this machine
+socat TCP-LISTEN:${bridgePort},bind=127.0.0.1,reuseaddr,fork UNIX-CONNECT:"${socketPath}"
+
+# Client configuration for the bridge
+${config}`;
+	}
+
+	private displayScopedApiKeys(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Scoped API keys")
+			.setDesc(
+				"Additional keys with limited permissions, such as a read-only research agent or a journaling agent that may only write to one folder. Folder lists are comma-separated; leave empty to allow the whole vault."
+			)
+			.addButton((button) =>
+				button.setButtonText("Add key").onClick(async () => {
+					this.plugin.settings.apiKeys.push({
+						name: `Agent ${this.plugin.settings.apiKeys.length + 1}`,
+						key: generateApiKey(),
+						read: true,
+						write: false,
+						commands: false,
+						readFolders: [],
+						writeFolders: [],
+					});
+					await this.saveApiKeys();
+					this.display();
+				})
+			);
+
+		this.plugin.settings.apiKeys.forEach((apiKey, index) => {
+			const keyEl = containerEl.createDiv({ cls: "connect-mcp-scoped-key" });
+
+			new Setting(keyEl)
+				.setName("Name")
+				.addText((text) =>
+					text.setValue(apiKey.name).onChange(async (value) => {
+						apiKey.name = value;
+						await this.saveApiKeys();
+					})
+				)
+				.addButton((button) =>
+					button
+						.setButtonText("Remove")
+						.setWarning()
+						.onClick(async () => {
+							this.plugin.settings.apiKeys.splice(index, 1);
+							await this.saveApiKeys();
+							this.display();
+						})
+				);
+
+			new Setting(keyEl)
+				.setName("Key")
+				.addText((text) => {
+					text.setValue(apiKey.key).onChange(async (value) => {
+						apiKey.key = value;
+						await this.saveApiKeys();
+					});
+					text.inputEl.addClass("connect-mcp-api-key-input");
+				})
+				.addButton((button) =>
+					button.setButtonText("Generate").onClick(async () => {
+						apiKey.key = generateApiKey();
+						await this.saveApiKeys();
+						this.display();
+					})
+				);
+
+			new Setting(keyEl)
+				.setName("Permissions")
+				.setDesc("Read notes, write notes, list and execute commands.")
+				.addToggle((toggle) =>
+					toggle
+						.setTooltip("Read")
+						.setValue(apiKey.read)
+						.onChange(async (value) => {
+							apiKey.read = value;
+							await this.saveApiKeys();
+						})
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setTooltip("Write")
+						.setValue(apiKey.write)
+						.onChange(async (value) => {
+							apiKey.write = value;
+							await this.saveApiKeys();
+						})
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setTooltip("Commands")
+						.setValue(apiKey.commands)
+						.onChange(async (value) => {
+							apiKey.commands = value;
+							await this.saveApiKeys();
+						})
+				);
+
+			new Setting(keyEl)
+				.setName("Read folders")
+				.addText((text) =>
+					text
+						.setPlaceholder("All folders")
+						.setValue(apiKey.readFolders.join(", "))
+						.onChange(async (value) => {
+							apiKey.readFolders = parseList(value);
+							await this.saveApiKeys();
+						})
+				);
+
+			new Setting(keyEl)
+				.setName("Write folders")
+				.addText((text) =>
+					text
+						.setPlaceholder("All folders")
+						.setValue(apiKey.writeFolders.join(", "))
+						.onChange(async (value) => {
+							apiKey.writeFolders = parseList(value);
+							await this.saveApiKeys();
+						})
+				);
+		});
+	}
+
+	private displayOAuth(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Sign in with OAuth")
+			.setDesc(
+				"Let clients that support OAuth connect without an API key. You choose what each client may access when it signs in. Restart the server to apply."
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.oauthEnabled).onChange(async (value) => {
+					this.plugin.settings.oauthEnabled = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		const grants = this.plugin.settings.oauthGrants;
+		if (!this.plugin.settings.oauthEnabled || grants.length === 0) {
+			return;
+		}
+
+		const table = containerEl.createEl("table", { cls: "connect-mcp-table" });
+		const headerRow = table.createEl("thead").createEl("tr");
+		for (const header of ["Client", "Access", "Granted", "Last used", ""]) {
+			headerRow.createEl("th", { text: header });
+		}
+
+		const body = table.createEl("tbody");
+		for (const grant of grants) {
+			const access = [
+				grant.scope.read ? "read" : null,
+				grant.scope.write ? "write" : null,
+				grant.scope.commands ? "commands" : null,
+			].filter((a) => a !== null);
+			const folders = [...grant.scope.readFolders, ...grant.scope.writeFolders];
+
+			const row = body.createEl("tr");
+			row.createEl("td", { text: grant.clientName, attr: { title: grant.clientId } });
+			row.createEl("td", {
+				text: access.join(", ") || "none",
+				attr: folders.length > 0 ? { title: `Folders: ${folders.join(", ")}` } : {},
+			});
+			row.createEl("td", { text: new Date(grant.createdAt).toLocaleString() });
+			row.createEl("td", { text: new Date(grant.lastUsedAt).toLocaleString() });
+
+			const revokeButton = row.createEl("td").createEl("button", { text: "Revoke" });
+			revokeButton.addEventListener("click", () => {
+				void this.plugin.revokeOAuthGrant(grant.id).then(() => this.display());
+			});
+		}
+	}
+
+	private displaySessions(containerEl: HTMLElement): void {
+		const sessions = this.plugin.getSessions();
+
+		new Setting(containerEl)
+			.setName("Active sessions")
+			.setDesc(`${sessions.length} connected agent session(s).`)
+			.addButton((button) =>
+				button.setButtonText("Refresh").onClick(() => {
+					this.display();
+				})
+			);
+
+		if (sessions.length === 0) {
+			return;
+		}
+
+		const table = containerEl.createEl("table", { cls: "connect-mcp-table" });
+		const headerRow = table.createEl("thead").createEl("tr");
+		for (const header of ["Client", "Key", "Created", "Last activity", "Calls", ""]) {
+			headerRow.createEl("th", { text: header });
+		}
+
+		const body = table.createEl("tbody");
+		for (const session of sessions) {
+			const row = body.createEl("tr");
+			row.createEl("td", { text: session.clientName ?? "Unknown", attr: { title: session.id } });
+			row.createEl("td", { text: session.keyName });
+			row.createEl("td", { text: new Date(session.createdAt).toLocaleString() });
+			row.createEl("td", { text: new Date(session.lastActivity).toLocaleString() });
+			row.createEl("td", { text: String(session.callCount) });
+
+			const killButton = row.createEl("td").createEl("button", { text: "Close" });
+			killButton.addEventListener("click", () => {
+				this.plugin.closeSession(session.id);
+				this.display();
+			});
+		}
+	}
+
+	private async saveApiKeys(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.updateApiKeys();
+	}
 }
@@ -1,78 +1,80 @@
 import { App, MarkdownView, TFile } from "obsidian";
-import { SecurityManager } from "../security/security-manager";
-
-interface ToolResult {
-	content: Array<{ type: string; text: string }>;
-	isError?: boolean;
-}
+import { RegisterTool, ToolResult } from "./types";
+import { errorResult, jsonResult } from "./tool-result";
+import { FORMAT_PROPERTY, markdownMeta } from "./output-format";
+import { PAGE_PROPERTIES, TextPosition, decodeCursor, encodeCursor, pageText } from "./pagination";
+import { trackContent } from "./content-hash";
 
 /**
  * Register active note tools with the MCP server
  */
 export function registerActiveTools(
 	app: App,
-	security: SecurityManager,
-	registerTool: (
-		definition: {
-			name: string;
-			description: string;
-			inputSchema: object;
-		},
-		handler: (args: Record<string, unknown>) => Promise<ToolResult>
-	) => void
+	registerTool: RegisterTool
 ): void {
 	// active_note - Get the currently open note
 	registerTool(
 		{
 			name: "active_note",
-			description: "Get the currently open note in Obsidian",
+			description: "Get the currently open note in Obsidian. Long notes are returned in chunks: pass nextCursor back as cursor to continue.",
 			inputSchema: {
 				type: "object",
-				properties: {},
+				properties: { ...PAGE_PROPERTIES, ...FORMAT_PROPERTY },
+			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					active: { type: "boolean" },
+					blocked: { type: "boolean" },
+					message: { type: "string" },
+					path: { type: "string" },
+					content: { type: "string" },
+					frontmatter: { type: ["object", "null"] },
+					hash: { type: "string" },
+					mtime: { type: "string" },
+					cursor: {
+						type: ["object", "null"],
+						properties: { line: { type: "number" }, ch: { type: "number" } },
+					},
+					selection: { type: ["string", "null"] },
+					startLine: { type: "number" },
+					endLine: { type: "number" },
+					totalLines: { type: "number" },
+					truncated: { type: "boolean" },
+					nextCursor: { type: "string" },
+				},
+				required: ["active"],
 			},
+			annotations: { title: "Active note", readOnlyHint: true, openWorldHint: false },
 		},
-		async (): Promise<ToolResult> => {
+		async (args, { security, maxResponseChars }): Promise<ToolResult> => {
 			try {
 				// Get the active markdown view
 				const activeView = app.workspace.getActiveViewOfType(MarkdownView);
 
 				if (!activeView) {
-					return {
-						content: [
-							{
-								type: "text",
-								text: JSON.stringify({ active: false, message: "No note is currently open" }, null, 2),
-							},
-						],
-					};
+					return jsonResult({ active: false, message: "No note is currently open" });
 				}
 
 				const file = activeView.file;
 				if (!file || !(file instanceof TFile)) {
-					return {
-						content: [
-							{
-								type: "text",
-								text: JSON.stringify({ active: false, message: "No file is associated with the current view" }, null, 2),
-							},
-						],
-					};
+					return jsonResult({ active: false, message: "No file is associated with the current view" });
 				}
 
 				// Check security
 				if (!security.isAccessible(file.path)) {
-					return {
-						content: [
-							{
-								type: "text",
-								text: JSON.stringify({ active: true, blocked: true, message: "Access to active note is blocked by security settings" }, null, 2),
-							},
-						],
-					};
+					return jsonResult({ active: true, blocked: true, message: "Access to active note is blocked by security settings" });
 				}
 
+				// A cursor only continues the note it was issued for
+				const scope = { path: file.path };
+				const start = args.cursor
+					? decodeCursor<TextPosition>(args.cursor as string, "active_note", scope)
+					: { line: 0, ch: 0 };
+
 				const content = await app.vault.read(file);
 				const cache = app.metadataCache.getFileCache(file);
+				const page = pageText(content, start, undefined, maxResponseChars);
 
 				// Get cursor position if available
 				const editor = activeView.editor;
@@ -94,33 +96,46 @@ export function registerActiveTools(
 					}
 				}
 
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{
-									active: true,
-									path: file.path,
-									content,
-									frontmatter: cache?.frontmatter || null,
-									cursor,
-									selection,
-								},
-								null,
-								2
-							),
-						},
-					],
-				};
+				return jsonResult({
+					active: true,
+					path: file.path,
+					content: page.text,
+					frontmatter: cache?.frontmatter || null,
+					hash: trackContent(file.path, content),
+					mtime: new Date(file.stat.mtime).toISOString(),
+					cursor,
+					selection,
+					startLine: page.startLine,
+					endLine: page.endLine,
+					totalLines: page.totalLines,
+					truncated: page.next !== null,
+					...(page.next && { nextCursor: encodeCursor("active_note", scope, page.next) }),
+				});
 			} catch (error) {
-				return {
-					content: [
-						{ type: "text", text: error instanceof Error ? error.message : String(error) },
-					],
-					isError: true,
-				};
+				return errorResult(error);
 			}
-		}
+		},
+		{ toMarkdown: renderActiveNote }
 	);
 }
+
+/**
+ * The active note as its raw body, with the cursor and selection in a comment
+ */
+function renderActiveNote(data: Record<string, unknown>): string {
+	if (!data.active || data.blocked) {
+		return data.message as string;
+	}
+
+	const cursor = data.cursor as { line: number; ch: number } | null;
+	const meta = markdownMeta({
+		path: data.path,
+		cursor: cursor ? `line ${cursor.line}, ch ${cursor.ch}` : undefined,
+		lines: data.truncated ? `${String(data.startLine)}-${String(data.endLine)} of ${String(data.totalLines)}` : undefined,
+		nextCursor: data.nextCursor,
+		hash: data.hash,
+		mtime: data.mtime,
+	});
+	const selection = data.selection ? `\n\n<!-- selection -->\n${data.selection as string}` : "";
+	return `${meta}\n${data.content as string}${selection}`;
+}
@@ -1,32 +1,18 @@
 import { App } from "obsidian";
-import { SecurityManager } from "../security/security-manager";
 import { getAppInternals } from "../obsidian-internals";
-
-interface ToolResult {
-	content: Array<{ type: string; text: string }>;
-	isError?: boolean;
-}
+import { RegisterTool, ToolResult } from "./types";
+import { errorResult, jsonResult } from "./tool-result";
+import { ToolError } from "../errors";
 
 /**
- * Register command execution tools with the MCP server
+ * Register command execution tools with the MCP server.
+ * They are only advertised while command execution is enabled in settings.
  */
 export function registerCommandTools(
 	app: App,
-	security: SecurityManager,
-	allowCommandExecution: boolean,
-	registerTool: (
-		definition: {
-			name: string;
-			description: string;
-			inputSchema: object;
-		},
-		handler: (args: Record<string, unknown>) => Promise<ToolResult>
-	) => void
+	isEnabled: () => boolean,
+	registerTool: RegisterTool
 ): void {
-	// Skip registration if command execution is disabled
-	if (!allowCommandExecution) {
-		return;
-	}
 	// command_list - List available commands
 	registerTool(
 		{
@@ -43,12 +29,28 @@ export function registerCommandTools(
 					},
 				},
 			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					total: { type: "number" },
+					commands: {
+						type: "array",
+						items: {
+							type: "object",
+							properties: { id: { type: "string" }, name: { type: "string" } },
+							required: ["id", "name"],
+						},
+					},
+				},
+				required: ["total", "commands"],
+			},
+			annotations: { title: "List commands", readOnlyHint: true, openWorldHint: false },
 		},
-		(args): Promise<ToolResult> => {
+		(args, { security }): Promise<ToolResult> => {
 			try {
-				// Check if read-only mode blocks command listing (it shouldn't, but check anyway)
-				if (security.readOnlyMode) {
-					// Allow listing commands even in read-only mode
+				// Listing is allowed in read-only mode, but still requires the command scope
+				if (!security.canUseCommands) {
+					throw new ToolError("ACCESS_DENIED", "Command access is not permitted for this API key");
 				}
 
 				const filter = (args.filter as string | undefined)?.toLowerCase();
@@ -67,36 +69,18 @@ export function registerCommandTools(
 				// Sort by id for consistent output
 				filtered.sort((a, b) => a.id.localeCompare(b.id));
 
-				return Promise.resolve({
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{
-									total: filtered.length,
-									commands: filtered.map((cmd) => ({
-										id: cmd.id,
-										name: cmd.name,
-									})),
-								},
-								null,
-								2
-							),
-						},
-					],
-				});
+				return Promise.resolve(jsonResult({
+					total: filtered.length,
+					commands: filtered.map((cmd) => ({
+						id: cmd.id,
+						name: cmd.name,
+					})),
+				}));
 			} catch (error) {
-				return Promise.resolve({
-					content: [
-						{
-							type: "text",
-							text: error instanceof Error ? error.message : String(error),
-						},
-					],
-					isError: true,
-				});
+				return Promise.resolve(errorResult(error));
 			}
-		}
+		},
+		{ isAvailable: (security) => isEnabled() && security.canUseCommands }
 	);
 
 	// command_execute - Execute a command by ID
@@ -116,22 +100,34 @@ export function registerCommandTools(
 				},
 				required: ["commandId"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					executed: { type: "boolean" },
+					commandId: { type: "string" },
+					commandName: { type: "string" },
+				},
+				required: ["executed", "commandId"],
+			},
+			annotations: {
+				title: "Execute command",
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
 		},
-		async (args): Promise<ToolResult> => {
+		async (args, { security }): Promise<ToolResult> => {
 			try {
 				const commandId = args.commandId as string;
 
 				// Check read-only mode - block command execution as it could modify files
 				if (security.readOnlyMode) {
-					return {
-						content: [
-							{
-								type: "text",
-								text: "Command execution is blocked in read-only mode",
-							},
-						],
-						isError: true,
-					};
+					throw new ToolError("READ_ONLY", "Command execution is blocked in read-only mode");
+				}
+
+				if (!security.canUseCommands) {
+					throw new ToolError("ACCESS_DENIED", "Command execution is not permitted for this API key");
 				}
 
 				// Verify the command exists
@@ -140,47 +136,34 @@ export function registerCommandTools(
 				const command = commands.find((cmd) => cmd.id === commandId);
 
 				if (!command) {
-					return {
-						content: [
-							{
-								type: "text",
-								text: `Command not found: ${commandId}. Use command_list to see available commands.`,
-							},
-						],
-						isError: true,
-					};
+					throw new ToolError(
+						"NOT_FOUND",
+						`Command not found: ${commandId}. Use command_list to see available commands.`
+					);
 				}
 
 				// Execute the command
 				await appInternals.commands.executeCommandById(commandId);
 
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{
-									executed: true,
-									commandId,
-									commandName: command.name,
-								},
-								null,
-								2
-							),
-						},
-					],
-				};
+				return jsonResult({
+					executed: true,
+					commandId,
+					commandName: command.name,
+				});
 			} catch (error) {
-				return {
-					content: [
-						{
-							type: "text",
-							text: `Failed to execute command: ${error instanceof Error ? error.message : String(error)}`,
-						},
-					],
-					isError: true,
-				};
+				return errorResult(
+					error instanceof ToolError
+						? error
+						: new ToolError(
+								"INTERNAL_ERROR",
+								`Failed to execute command: ${error instanceof Error ? error.message : String(error)}`
+							)
+				);
 			}
+		},
+		{
+			isAvailable: (security) =>
+				isEnabled() && security.canUseCommands && !security.readOnlyMode,
 		}
 	);
 }
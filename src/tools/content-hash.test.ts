@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { ToolError } from "../errors";
+import type { SecurityManager } from "../security/security-manager";
+import { checkExpectedHash, clearTrackedContent, contentHash, trackContent } from "./content-hash";
+
+/**
+ * Security manager stub that can read everything except the given paths
+ */
+function securityHiding(...hidden: string[]): SecurityManager {
+	return { isAccessible: (path: string) => !hidden.includes(path) } as unknown as SecurityManager;
+}
+
+/**
+ * Run checkExpectedHash and return the conflict it throws
+ */
+function conflict(path: string, current: string, expectedHash: string, security = securityHiding()): ToolError {
+	try {
+		checkExpectedHash(path, current, expectedHash, security);
+	} catch (error) {
+		if (error instanceof ToolError) return error;
+		throw error;
+	}
+	throw new Error("Expected a conflict");
+}
+
+beforeEach(() => {
+	clearTrackedContent();
+});
+
+describe("contentHash", () => {
+	it("is a short stable fingerprint", () => {
+		expect(contentHash("hello")).toMatch(/^[0-9a-f]{16}$/);
+		expect(contentHash("hello")).toBe(contentHash("hello"));
+		expect(contentHash("hello")).not.toBe(contentHash("hello!"));
+	});
+});
+
+describe("checkExpectedHash", () => {
+	it("passes when the content is unchanged", () => {
+		const hash = trackContent("a.md", "one\ntwo");
+		expect(() => checkExpectedHash("a.md", "one\ntwo", hash, securityHiding())).not.toThrow();
+	});
+
+	it("passes without an expected hash", () => {
+		expect(() => checkExpectedHash("a.md", "text", undefined, securityHiding())).not.toThrow();
+		expect(() => checkExpectedHash("a.md", "text", "", securityHiding())).not.toThrow();
+	});
+
+	it("reports a conflict with a diff from the content that was read", () => {
+		const hash = trackContent("a.md", "one\ntwo");
+		const error = conflict("a.md", "one\nthree", hash);
+		expect(error.code).toBe("CONFLICT");
+		expect(error.details).toEqual({
+			expectedHash: hash,
+			currentHash: contentHash("one\nthree"),
+			diff: " one\n-two\n+three",
+		});
+	});
+
+	it("omits the diff for content it never returned", () => {
+		const error = conflict("a.md", "current", contentHash("unknown"));
+		expect(error.details?.diff).toBeNull();
+	});
+
+	it("omits the diff for notes the key can no longer read", () => {
+		const hash = trackContent("secret.md", "before");
+		const error = conflict("secret.md", "after", hash, securityHiding("secret.md"));
+		expect(error.details?.diff).toBeNull();
+	});
+
+	it("does not use content tracked for another path", () => {
+		const hash = trackContent("a.md", "same");
+		const error = conflict("b.md", "changed", hash);
+		expect(error.details?.diff).toBeNull();
+	});
+});
+
+describe("trackContent", () => {
+	it("evicts the oldest contents beyond the limit", () => {
+		const first = trackContent("first.md", "first");
+		for (let i = 0; i < 100; i++) {
+			trackContent(`note-${i}.md`, `content ${i}`);
+		}
+		const last = trackContent("last.md", "last");
+
+		expect(conflict("first.md", "changed", first).details?.diff).toBeNull();
+		expect(conflict("last.md", "changed", last).details?.diff).toBe("-last\n+changed");
+	});
+
+	it("is emptied by clearTrackedContent", () => {
+		const hash = trackContent("a.md", "before");
+		clearTrackedContent();
+		expect(conflict("a.md", "after", hash).details?.diff).toBeNull();
+	});
+});
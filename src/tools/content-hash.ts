@@ -0,0 +1,80 @@
+import { createHash } from "crypto";
+import { ToolError } from "../errors";
+import type { SecurityManager } from "../security/security-manager";
+import { diffLines, formatDiff } from "../utils/diff";
+
+/**
+ * Input property of write tools guarding against overwriting changes made since the agent's read
+ */
+export const EXPECTED_HASH_PROPERTY = {
+	expectedHash: {
+		type: "string",
+		description: "hash returned when the note was read; the call fails with CONFLICT if the note has changed since",
+	},
+} as const;
+
+// Contents recently returned to agents, kept to show what changed on a conflict
+const MAX_TRACKED = 100;
+const MAX_TRACKED_CHARS = 5_000_000;
+const tracked = new Map<string, string>();
+let trackedChars = 0;
+
+/**
+ * Short fingerprint of note content
+ */
+export function contentHash(content: string): string {
+	return createHash("sha256").update(content).digest("hex").slice(0, 16);
+}
+
+/**
+ * Hash content returned to an agent and remember it, so a later conflict can include a diff
+ */
+export function trackContent(path: string, content: string): string {
+	const hash = contentHash(content);
+	const key = `${path}\0${hash}`;
+
+	if (!tracked.has(key)) {
+		tracked.set(key, content);
+		trackedChars += content.length;
+	}
+	// Evict the oldest entries beyond the limits
+	for (const [oldKey, oldContent] of tracked) {
+		if (tracked.size <= MAX_TRACKED && trackedChars <= MAX_TRACKED_CHARS) break;
+		if (oldKey === key) continue;
+		tracked.delete(oldKey);
+		trackedChars -= oldContent.length;
+	}
+	return hash;
+}
+
+/**
+ * Forget all tracked contents (when the server stops)
+ */
+export function clearTrackedContent(): void {
+	tracked.clear();
+	trackedChars = 0;
+}
+
+/**
+ * Check that a note still has the content the agent saw
+ * @throws ToolError CONFLICT with a diff from the seen to the current content (when known and readable)
+ */
+export function checkExpectedHash(
+	path: string,
+	current: string,
+	expectedHash: unknown,
+	security: SecurityManager
+): void {
+	if (typeof expectedHash !== "string" || !expectedHash) return;
+
+	const currentHash = contentHash(current);
+	if (currentHash === expectedHash) return;
+
+	const seen = tracked.get(`${path}\0${expectedHash}`);
+	const diff = seen !== undefined && security.isAccessible(path) ? formatDiff(diffLines(seen, current)) : null;
+	throw new ToolError("CONFLICT", `${path} has changed since it was read; read it again before writing`, {
+		expectedHash,
+		currentHash,
+		diff,
+	});
+}
@@ -1,26 +1,18 @@
 import { App } from "obsidian";
-import { SecurityManager } from "../security/security-manager";
-import { getDataviewApi } from "../obsidian-internals";
-
-interface ToolResult {
-	content: Array<{ type: string; text: string }>;
-	isError?: boolean;
-}
+import { getDataviewApi, isDataviewEnabled } from "../obsidian-internals";
+import { RegisterTool, ToolResult } from "./types";
+import { errorResult, jsonResult } from "./tool-result";
+import { FORMAT_PROPERTY, markdownList, markdownMeta, markdownTable, markdownValue } from "./output-format";
+import { ToolError } from "../errors";
+import type { SecurityManager } from "../security/security-manager";
+import { PAGE_PROPERTIES, decodeCursor, encodeCursor, pageItems } from "./pagination";
 
 /**
  * Register dataview-related tools with the MCP server
  */
 export function registerDataviewTools(
 	app: App,
-	security: SecurityManager,
-	registerTool: (
-		definition: {
-			name: string;
-			description: string;
-			inputSchema: object;
-		},
-		handler: (args: Record<string, unknown>) => Promise<ToolResult>
-	) => void
+	registerTool: RegisterTool
 ): void {
 	// dataview_query - Execute a DQL query
 	registerTool(
@@ -34,94 +26,161 @@ export function registerDataviewTools(
 						type: "string",
 						description: "DQL query (LIST, TABLE, TASK, CALENDAR)",
 					},
+					...PAGE_PROPERTIES,
+					...FORMAT_PROPERTY,
 				},
 				required: ["query"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					type: {
+						type: "string",
+						description: "Result type: list, table, task or the raw Dataview type",
+					},
+					items: { type: "array" },
+					headers: { type: "array", items: { type: "string" } },
+					rows: { type: "array" },
+					tasks: { type: "array" },
+					value: {},
+					total: { type: "number", description: "Number of items, rows or tasks in the full result" },
+					offset: { type: "number" },
+					nextCursor: { type: "string" },
+				},
+				required: ["type"],
+			},
+			annotations: { title: "Dataview query", readOnlyHint: true, openWorldHint: false },
 		},
-		async (args): Promise<ToolResult> => {
+		async (args, { security, signal, reportProgress, maxResponseChars }): Promise<ToolResult> => {
 			try {
 				const query = args.query as string;
+				const scope = { query };
+				const offset = args.cursor ? decodeCursor<number>(args.cursor as string, "dataview_query", scope) : 0;
 
 				const api = getDataviewApi(app);
 				if (!api) {
-					return {
-						content: [
-							{
-								type: "text",
-								text: "Dataview plugin is not installed or enabled. Please install and enable the Dataview plugin to use DQL queries.",
-							},
-						],
-						isError: true,
-					};
+					throw new ToolError(
+						"UNAVAILABLE",
+						"Dataview plugin is not installed or enabled. Please install and enable the Dataview plugin to use DQL queries."
+					);
 				}
 
-				const result = await api.query(query);
+				// Dataview reports no intermediate progress, so only signal start and finish
+				await reportProgress(0, 1, "Running query");
+				const result = await abortable(api.query(query), signal);
+				await reportProgress(1, 1, "Query finished");
 
 				if (!result.successful) {
-					return {
-						content: [
-							{
-								type: "text",
-								text: `DQL query failed: ${result.error || "Unknown error"}`,
-							},
-						],
-						isError: true,
-					};
+					throw new ToolError("INVALID_ARGUMENT", `DQL query failed: ${result.error || "Unknown error"}`, {
+						argument: "query",
+					});
 				}
 
-				// Format the result based on query type
+				// Only rows from notes the key may read are returned
 				const value = result.value;
-				let formatted: unknown;
+				const attributable = !UNATTRIBUTABLE_QUERY.test(query);
+				if (!security.canReadWholeVault && !(attributable && value && FILTERABLE_TYPES.includes(value.type))) {
+					throw new ToolError(
+						"ACCESS_DENIED",
+						"Access denied: only LIST, TABLE and TASK queries without WITHOUT ID or GROUP BY can be run when some notes are hidden from this API key"
+					);
+				}
+				const isVisible = (item: unknown): boolean =>
+					security.canReadWholeVault || isReadableSource(item, value?.type, security);
+
+				// Format the result based on query type
+				let formatted: Record<string, unknown>;
+				let values: unknown[] | undefined;
+				let key = "";
 
 				if (value?.type === "list") {
 					// List query result
-					formatted = {
-						type: "list",
-						items: value.values?.map((item) => formatDataviewValue(item)),
-					};
+					formatted = { type: "list" };
+					key = "items";
+					values = value.values?.filter(isVisible).map((item) => formatDataviewValue(item));
 				} else if (value?.type === "table") {
 					// Table query result
-					formatted = {
-						type: "table",
-						headers: value.headers,
-						rows: value.values?.map((row) => {
-							if (Array.isArray(row)) {
-								return row.map((cell) => formatDataviewValue(cell));
-							}
-							return formatDataviewValue(row);
-						}),
-					};
+					formatted = { type: "table", headers: value.headers };
+					key = "rows";
+					values = value.values?.filter(isVisible).map((row) => {
+						if (Array.isArray(row)) {
+							return row.map((cell) => formatDataviewValue(cell));
+						}
+						return formatDataviewValue(row);
+					});
 				} else if (value?.type === "task") {
 					// Task query result
-					formatted = {
-						type: "task",
-						tasks: value.values?.map((task) => formatDataviewValue(task)),
-					};
+					formatted = { type: "task" };
+					key = "tasks";
+					values = value.values?.filter(isVisible).map((task) => formatDataviewValue(task));
 				} else {
 					// Unknown type, return raw
-					formatted = value;
+					formatted = { type: value?.type ?? "unknown", value: value ?? null };
+				}
+
+				// Return the rows that fit in the response size budget
+				if (values) {
+					const page = pageItems(values, offset, maxResponseChars);
+					formatted[key] = page.items;
+					formatted.total = values.length;
+					formatted.offset = offset;
+					if (page.next !== null) {
+						formatted.nextCursor = encodeCursor("dataview_query", scope, page.next);
+					}
 				}
 
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(formatted, null, 2),
-						},
-					],
-				};
+				return jsonResult(formatted);
 			} catch (error) {
-				return {
-					content: [
-						{ type: "text", text: error instanceof Error ? error.message : String(error) },
-					],
-					isError: true,
-				};
+				return errorResult(error);
 			}
-		}
+		},
+		{ isAvailable: (security) => security.canRead && isDataviewEnabled(app), toMarkdown: renderQueryResult }
 	);
 }
 
+// Result types whose rows can be traced back to the note they come from
+const FILTERABLE_TYPES = ["list", "table", "task"];
+// Queries whose rows do not start with the note they come from
+const UNATTRIBUTABLE_QUERY = /\bWITHOUT\s+ID\b|\bGROUP\s+BY\b/i;
+
+/**
+ * Check that a list item, table row or task comes from a note the key may read
+ */
+function isReadableSource(item: unknown, type: string | undefined, security: SecurityManager): boolean {
+	// Table rows start with the note's link, list items are the link or { primary: link, value }
+	let source = type === "table" && Array.isArray(item) ? item[0] : item;
+	if (type === "list" && typeof source === "object" && source !== null && "primary" in source) {
+		source = source.primary;
+	}
+	// Links and tasks both carry the note's path
+	const path = typeof source === "object" && source !== null ? (source as { path?: unknown }).path : undefined;
+	return typeof path === "string" && security.isAccessible(path);
+}
+
+/**
+ * Reject as soon as the request is cancelled (the underlying query keeps running)
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+	if (signal.aborted) {
+		return Promise.reject(new ToolError("CANCELLED", "Query cancelled"));
+	}
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = (): void => reject(new ToolError("CANCELLED", "Query cancelled"));
+		signal.addEventListener("abort", onAbort, { once: true });
+		promise.then(
+			(value) => {
+				signal.removeEventListener("abort", onAbort);
+				resolve(value);
+			},
+			(error) => {
+				signal.removeEventListener("abort", onAbort);
+				reject(error);
+			}
+		);
+	});
+}
+
 /**
  * Format Dataview values for JSON output
  */
@@ -171,3 +230,29 @@ function formatDataviewValue(value: unknown): unknown {
 	// Primitives
 	return value;
 }
+
+/**
+ * Render a query result as a Markdown table, bullet list or task list
+ */
+function renderQueryResult(data: Record<string, unknown>): string {
+	let body: string;
+	if (data.type === "table") {
+		const rows = (data.rows as unknown[]).map((row) => (Array.isArray(row) ? row : [row]));
+		body = markdownTable(data.headers as string[], rows);
+	} else if (data.type === "list") {
+		body = markdownList(data.items as unknown[]);
+	} else if (data.type === "task") {
+		body = (data.tasks as unknown[])
+			.map((task) => {
+				const { text, completed, path } = task as { text?: unknown; completed?: unknown; path?: unknown };
+				const source = typeof path === "string" ? ` ([[${path}]])` : "";
+				return `- [${completed ? "x" : " "}] ${markdownValue(text)}${source}`;
+			})
+			.join("\n");
+	} else {
+		body = "```json\n" + JSON.stringify(data.value, null, 2) + "\n```";
+	}
+
+	const meta = markdownMeta({ total: data.total, offset: data.offset || undefined, nextCursor: data.nextCursor });
+	return meta ? `${body}\n\n${meta}` : body;
+}
@@ -1,26 +1,18 @@
 import { App, TFile } from "obsidian";
-import { SecurityManager } from "../security/security-manager";
 import { findBestMatch } from "../utils/fuzzy-match";
-
-interface ToolResult {
-	content: Array<{ type: string; text: string }>;
-	isError?: boolean;
-}
+import { RegisterTool, ToolResult } from "./types";
+import { errorResult, jsonResult } from "./tool-result";
+import { ToolError } from "../errors";
+import { EXPECTED_HASH_PROPERTY, checkExpectedHash, trackContent } from "./content-hash";
 
 /**
  * Register edit-related tools with the MCP server
+ * @param getMaxAttachmentSize Largest file vault_attach stores, in bytes (0 = unlimited)
  */
 export function registerEditTools(
 	app: App,
-	security: SecurityManager,
-	registerTool: (
-		definition: {
-			name: string;
-			description: string;
-			inputSchema: object;
-		},
-		handler: (args: Record<string, unknown>) => Promise<ToolResult>
-	) => void
+	getMaxAttachmentSize: () => number,
+	registerTool: RegisterTool
 ): void {
 	// vault_edit - Fuzzy find/replace
 	registerTool(
@@ -37,11 +29,30 @@ export function registerEditTools(
 						type: "number",
 						description: "Match threshold 0-1 (default: 0.7)",
 					},
+					...EXPECTED_HASH_PROPERTY,
 				},
 				required: ["path", "oldText", "newText"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string" },
+					matched: { type: "string" },
+					similarity: { type: "string" },
+					replaced: { type: "boolean" },
+					hash: { type: "string" },
+				},
+				required: ["path", "replaced"],
+			},
+			annotations: {
+				title: "Fuzzy find and replace",
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
 		},
-		async (args): Promise<ToolResult> => {
+		async (args, { security }): Promise<ToolResult> => {
 			try {
 				const path = security.validateWrite(args.path as string);
 				const oldText = args.oldText as string;
@@ -50,25 +61,18 @@ export function registerEditTools(
 
 				const file = app.vault.getAbstractFileByPath(path);
 				if (!file || !(file instanceof TFile)) {
-					return {
-						content: [{ type: "text", text: `File not found: ${path}` }],
-						isError: true,
-					};
+					throw new ToolError("NOT_FOUND", `File not found: ${path}`);
 				}
 
 				const content = await app.vault.read(file);
+				checkExpectedHash(path, content, args.expectedHash, security);
 				const match = findBestMatch(content, oldText, threshold);
 
 				if (!match) {
-					return {
-						content: [
-							{
-								type: "text",
-								text: `No match found for text with threshold ${threshold}. Try lowering the threshold or checking the search text.`,
-							},
-						],
-						isError: true,
-					};
+					throw new ToolError(
+						"NOT_FOUND",
+						`No match found for text with threshold ${threshold}. Try lowering the threshold or checking the search text.`
+					);
 				}
 
 				// Perform the replacement
@@ -77,31 +81,38 @@ export function registerEditTools(
 
 				await app.vault.modify(file, newContent);
 
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{
-									path,
-									matched: match.match,
-									similarity: Math.round(match.similarity * 100) + "%",
-									replaced: true,
-								},
-								null,
-								2
-							),
-						},
-					],
-				};
+				return jsonResult({
+					path,
+					matched: match.match,
+					similarity: Math.round(match.similarity * 100) + "%",
+					replaced: true,
+					hash: trackContent(path, newContent),
+				});
 			} catch (error) {
+				return errorResult(error);
+			}
+		},
+		{
+			isAvailable: (security) => security.canWrite,
+			preview: async (args, security) => {
+				const path = security.validateWrite(args.path as string);
+				const file = app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile)) return null;
+
+				const content = await app.vault.read(file);
+				const match = findBestMatch(
+					content,
+					args.oldText as string,
+					(args.fuzzyThreshold as number) ?? 0.7
+				);
+				if (!match) return null;
+
 				return {
-					content: [
-						{ type: "text", text: error instanceof Error ? error.message : String(error) },
-					],
-					isError: true,
+					path,
+					before: content,
+					after: content.slice(0, match.start) + (args.newText as string) + content.slice(match.end),
 				};
-			}
+			},
 		}
 	);
 
@@ -121,11 +132,30 @@ export function registerEditTools(
 						enum: ["before", "after", "replace"],
 						description: "Insert mode (default: replace)",
 					},
+					...EXPECTED_HASH_PROPERTY,
 				},
 				required: ["path", "lineNumber", "content"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string" },
+					lineNumber: { type: "number" },
+					mode: { type: "string" },
+					linesInserted: { type: "number" },
+					hash: { type: "string" },
+				},
+				required: ["path", "lineNumber"],
+			},
+			annotations: {
+				title: "Edit line",
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
 		},
-		async (args): Promise<ToolResult> => {
+		async (args, { security }): Promise<ToolResult> => {
 			try {
 				const path = security.validateWrite(args.path as string);
 				const lineNumber = args.lineNumber as number;
@@ -134,71 +164,44 @@ export function registerEditTools(
 
 				const file = app.vault.getAbstractFileByPath(path);
 				if (!file || !(file instanceof TFile)) {
-					return {
-						content: [{ type: "text", text: `File not found: ${path}` }],
-						isError: true,
-					};
+					throw new ToolError("NOT_FOUND", `File not found: ${path}`);
 				}
 
 				const content = await app.vault.read(file);
-				const lines = content.split("\n");
-
-				// Validate line number
-				if (lineNumber < 1 || lineNumber > lines.length + 1) {
-					return {
-						content: [
-							{
-								type: "text",
-								text: `Invalid line number: ${lineNumber}. File has ${lines.length} lines.`,
-							},
-						],
-						isError: true,
-					};
-				}
-
-				const index = lineNumber - 1;
-				const newLines = newContent.split("\n");
-
-				switch (mode) {
-					case "before":
-						lines.splice(index, 0, ...newLines);
-						break;
-					case "after":
-						lines.splice(index + 1, 0, ...newLines);
-						break;
-					case "replace":
-					default:
-						lines.splice(index, 1, ...newLines);
-						break;
-				}
-
-				await app.vault.modify(file, lines.join("\n"));
-
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{
-									path,
-									lineNumber,
-									mode,
-									linesInserted: newLines.length,
-								},
-								null,
-								2
-							),
-						},
-					],
-				};
+				checkExpectedHash(path, content, args.expectedHash, security);
+				const edited = editLines(content, lineNumber, newContent, mode);
+				await app.vault.modify(file, edited);
+
+				return jsonResult({
+					path,
+					lineNumber,
+					mode,
+					linesInserted: newContent.split("\n").length,
+					hash: trackContent(path, edited),
+				});
 			} catch (error) {
+				return errorResult(error);
+			}
+		},
+		{
+			isAvailable: (security) => security.canWrite,
+			preview: async (args, security) => {
+				const path = security.validateWrite(args.path as string);
+				const file = app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile)) return null;
+
+				const content = await app.vault.read(file);
 				return {
-					content: [
-						{ type: "text", text: error instanceof Error ? error.message : String(error) },
-					],
-					isError: true,
+					path,
+					before: content,
+					after: editLines(
+						content,
+						args.lineNumber as number,
+						args.content as string,
+						(args.mode as string) || "replace"
+					),
 				};
-			}
+			},
 		}
 	);
 
@@ -227,11 +230,29 @@ export function registerEditTools(
 						description: "How to modify",
 					},
 					content: { type: "string", description: "The body content only — do not include the heading itself (e.g. for target 'Daily Standup', send the content that goes under '## Daily Standup', not the heading line)" },
+					...EXPECTED_HASH_PROPERTY,
 				},
 				required: ["path", "targetType", "target", "operation", "content"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					success: { type: "boolean" },
+					path: { type: "string" },
+					action: { type: "string" },
+					hash: { type: "string" },
+				},
+				required: ["path", "action"],
+			},
+			annotations: {
+				title: "Patch note section",
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
 		},
-		async (args): Promise<ToolResult> => {
+		async (args, { security }): Promise<ToolResult> => {
 			try {
 				const path = security.validateWrite(args.path as string);
 				const targetType = args.targetType as "heading" | "block" | "frontmatter";
@@ -241,58 +262,251 @@ export function registerEditTools(
 
 				const file = app.vault.getAbstractFileByPath(path);
 				if (!file || !(file instanceof TFile)) {
-					return {
-						content: [{ type: "text", text: `File not found: ${path}` }],
-						isError: true,
-					};
+					throw new ToolError("NOT_FOUND", `File not found: ${path}`);
 				}
 
 				const content = await app.vault.read(file);
-				let newContent: string;
-				let action: string;
-
-				if (targetType === "heading") {
-					const result = patchHeading(content, target, operation, patchContent);
-					newContent = result.content;
-					action = result.action;
-				} else if (targetType === "block") {
-					newContent = patchBlock(content, target, operation, patchContent);
-					action = `${operation}d block '${target}'`;
-				} else {
-					newContent = patchFrontmatter(content, target, operation, patchContent);
-					action = `${operation}d frontmatter field '${target}'`;
-				}
+				checkExpectedHash(path, content, args.expectedHash, security);
+				const { content: newContent, action } = applyPatch(
+					content,
+					targetType,
+					target,
+					operation,
+					patchContent
+				);
 
 				await app.vault.modify(file, newContent);
 
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{
-									success: true,
-									path,
-									action,
-								},
-								null,
-								2
-							),
-						},
-					],
-				};
+				return jsonResult({
+					success: true,
+					path,
+					action,
+					hash: trackContent(path, newContent),
+				});
 			} catch (error) {
+				return errorResult(error);
+			}
+		},
+		{
+			isAvailable: (security) => security.canWrite,
+			preview: async (args, security) => {
+				const path = security.validateWrite(args.path as string);
+				const file = app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile)) return null;
+
+				const content = await app.vault.read(file);
+				const result = applyPatch(
+					content,
+					args.targetType as "heading" | "block" | "frontmatter",
+					args.target as string,
+					args.operation as "append" | "prepend" | "replace",
+					args.content as string
+				);
+				return { path, before: content, after: result.content };
+			},
+		}
+	);
+
+	// vault_attach - Store a binary attachment and embed it in a note
+	registerTool(
+		{
+			name: "vault_attach",
+			description: "Save a binary file (such as a diagram or screenshot) as an attachment of a note, in the folder set in Obsidian's attachment settings, and embed it in the note",
+			inputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string", description: "Note the attachment belongs to" },
+					filename: { type: "string", description: "File name with extension (e.g., 'diagram.png'); a number is added if it is taken" },
+					data: { type: "string", description: "File content, base64-encoded" },
+					embed: { type: "boolean", description: "Insert an embed link into the note (default: true)" },
+					heading: { type: "string", description: "Heading to add the embed under (path like 'Section::Subsection', created if missing)" },
+					lineNumber: { type: "integer", minimum: 1, description: "Line to insert the embed at (1-based), instead of a heading" },
+					...EXPECTED_HASH_PROPERTY,
+				},
+				required: ["path", "filename", "data"],
+			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					attachment: { type: "string" },
+					size: { type: "number" },
+					link: { type: "string" },
+					embeddedIn: { type: "string" },
+					hash: { type: "string" },
+				},
+				required: ["attachment", "link"],
+			},
+			annotations: {
+				title: "Attach file to note",
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
+		},
+		async (args, { security }): Promise<ToolResult> => {
+			try {
+				const notePath = security.validateWrite(args.path as string);
+				const embed = (args.embed as boolean | undefined) ?? true;
+
+				const note = app.vault.getAbstractFileByPath(notePath);
+				if (!note || !(note instanceof TFile)) {
+					throw new ToolError("NOT_FOUND", `File not found: ${notePath}`);
+				}
+
+				const data = Buffer.from(args.data as string, "base64");
+				if (data.length === 0) {
+					throw new ToolError("INVALID_ARGUMENT", "data is empty or not valid base64", { argument: "data" });
+				}
+				const maxSize = getMaxAttachmentSize();
+				if (maxSize > 0 && data.length > maxSize) {
+					throw new ToolError("TOO_LARGE", "File is larger than the attachment size limit", {
+						size: data.length,
+						maxSize,
+					});
+				}
+
+				const attachmentPath = security.validateWrite(await attachmentPathFor(app, args.filename as string, notePath));
+				// Make sure the note is unchanged and the insertion point is valid before anything is written
+				const content = await app.vault.read(note);
+				checkExpectedHash(notePath, content, args.expectedHash, security);
+				insertEmbed(content, "", args.heading as string | undefined, args.lineNumber as number | undefined);
+
+				const parentPath = attachmentPath.split("/").slice(0, -1).join("/");
+				if (parentPath && !app.vault.getAbstractFileByPath(parentPath)) {
+					await app.vault.createFolder(parentPath);
+				}
+				const attachment = await app.vault.createBinary(
+					attachmentPath,
+					data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+				);
+
+				// Link in the format chosen in Obsidian's settings (wikilink or Markdown, shortest or relative path)
+				const link = "!" + app.fileManager.generateMarkdownLink(attachment, notePath);
+				const updated = embed
+					? await app.vault.process(note, (current) =>
+						insertEmbed(current, link, args.heading as string | undefined, args.lineNumber as number | undefined)
+					)
+					: null;
+
+				return jsonResult({
+					attachment: attachment.path,
+					size: data.length,
+					link,
+					...(updated !== null && { embeddedIn: notePath, hash: trackContent(notePath, updated) }),
+				});
+			} catch (error) {
+				return errorResult(error);
+			}
+		},
+		{
+			isAvailable: (security) => security.canWrite,
+			preview: async (args, security) => {
+				const path = security.validateWrite(args.path as string);
+				const file = app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile) || args.embed === false) return null;
+
+				// The real link is generated once the file exists; show the target path meanwhile
+				const attachmentPath = await attachmentPathFor(app, args.filename as string, path);
+				const content = await app.vault.read(file);
 				return {
-					content: [
-						{ type: "text", text: error instanceof Error ? error.message : String(error) },
-					],
-					isError: true,
+					path,
+					before: content,
+					after: insertEmbed(
+						content,
+						`![[${attachmentPath}]]`,
+						args.heading as string | undefined,
+						args.lineNumber as number | undefined
+					),
 				};
-			}
+			},
 		}
 	);
 }
 
+/**
+ * Resolve where an attachment of a note is stored, following Obsidian's attachment settings
+ */
+async function attachmentPathFor(app: App, filename: string, notePath: string): Promise<string> {
+	const name = filename.split("/").pop() ?? "";
+	if (!name || !name.includes(".")) {
+		throw new ToolError("INVALID_ARGUMENT", `File name needs an extension: ${filename}`, { argument: "filename" });
+	}
+	return app.fileManager.getAvailablePathForAttachment(name, notePath);
+}
+
+/**
+ * Insert an embed link under a heading, at a line, or at the end of the note
+ */
+function insertEmbed(content: string, link: string, heading?: string, lineNumber?: number): string {
+	if (heading) {
+		return patchHeading(content, heading, "append", link).content;
+	}
+	if (lineNumber !== undefined) {
+		return editLines(content, lineNumber, link, "before");
+	}
+	return content.length === 0 || content.endsWith("\n") ? `${content}${link}\n` : `${content}\n${link}\n`;
+}
+
+/**
+ * Insert or replace lines at a 1-based line number
+ */
+function editLines(content: string, lineNumber: number, newContent: string, mode: string): string {
+	const lines = content.split("\n");
+
+	// Validate line number
+	if (lineNumber < 1 || lineNumber > lines.length + 1) {
+		throw new ToolError(
+			"INVALID_ARGUMENT",
+			`Invalid line number: ${lineNumber}. File has ${lines.length} lines.`,
+			{ argument: "lineNumber" }
+		);
+	}
+
+	const index = lineNumber - 1;
+	const newLines = newContent.split("\n");
+
+	switch (mode) {
+		case "before":
+			lines.splice(index, 0, ...newLines);
+			break;
+		case "after":
+			lines.splice(index + 1, 0, ...newLines);
+			break;
+		case "replace":
+		default:
+			lines.splice(index, 1, ...newLines);
+			break;
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Apply a vault_patch operation to note content
+ */
+function applyPatch(
+	content: string,
+	targetType: "heading" | "block" | "frontmatter",
+	target: string,
+	operation: "append" | "prepend" | "replace",
+	patchContent: string
+): PatchResult {
+	if (targetType === "heading") {
+		return patchHeading(content, target, operation, patchContent);
+	} else if (targetType === "block") {
+		return {
+			content: patchBlock(content, target, operation, patchContent),
+			action: `${operation}d block '${target}'`,
+		};
+	} else {
+		return {
+			content: patchFrontmatter(content, target, operation, patchContent),
+			action: `${operation}d frontmatter field '${target}'`,
+		};
+	}
+}
+
 /**
  * Patch content under a heading
  * Heading path format: "Section" or "Section::Subsection"
@@ -413,7 +627,7 @@ function patchBlock(
 	}
 
 	if (blockLine === -1) {
-		throw new Error(`Block not found: ${blockId}`);
+		throw new ToolError("NOT_FOUND", `Block not found: ${blockId}`, { argument: "target" });
 	}
 
 	const originalLine = lines[blockLine] || "";
@@ -438,6 +652,7 @@ function patchBlock(
 
 /**
  * Patch a frontmatter field
+ * @throws ToolError if the frontmatter is not closed
  */
 function patchFrontmatter(
 	content: string,
@@ -453,7 +668,7 @@ function patchFrontmatter(
 
 	const endIndex = content.indexOf("---", 3);
 	if (endIndex === -1) {
-		throw new Error("Invalid frontmatter: missing closing ---");
+		throw new ToolError("INVALID_ARGUMENT", "Invalid frontmatter: missing closing ---");
 	}
 
 	const frontmatter = content.slice(4, endIndex);
@@ -0,0 +1,322 @@
+import { App, TFile, TFolder } from "obsidian";
+import type { SecurityManager } from "../security/security-manager";
+import { RegisterTool, ToolResult } from "./types";
+import { errorResult, jsonResult } from "./tool-result";
+import { FORMAT_PROPERTY, markdownMeta } from "./output-format";
+import { ToolError } from "../errors";
+import { filesIn } from "./vault-tools";
+
+// folder_delete requires expectedFiles when trashing more than this many files
+const BULK_DELETE_THRESHOLD = 10;
+
+/**
+ * Folder summary returned by folder_tree (counts include subfolders)
+ */
+interface FolderNode {
+	path: string;
+	notes: number;
+	files: number;
+	size: number;
+	/** Most recent modification of a file inside (null if empty) */
+	modified: string | null;
+	subfolders: number;
+	children?: FolderNode[];
+}
+
+/**
+ * Resolve an existing folder ("" or "/" = vault root)
+ * @throws ToolError if the folder does not exist
+ */
+function getFolder(app: App, path: string): TFolder {
+	const folder = !path || path === "/" ? app.vault.getRoot() : app.vault.getAbstractFileByPath(path);
+	if (!(folder instanceof TFolder)) {
+		throw new ToolError("NOT_FOUND", `Folder not found: ${path}`);
+	}
+	return folder;
+}
+
+/**
+ * Summarize a folder and its accessible contents, listing subfolders down to `depth` levels.
+ * Returns null for folders the key cannot see that contain nothing it can see.
+ */
+function describeFolder(folder: TFolder, security: SecurityManager, depth: number): FolderNode | null {
+	const node: FolderNode = { path: folder.path, notes: 0, files: 0, size: 0, modified: null, subfolders: 0 };
+	const children: FolderNode[] = [];
+	let latest = 0;
+
+	for (const child of folder.children) {
+		if (child instanceof TFile) {
+			if (!security.isAccessible(child.path)) continue;
+			node.files++;
+			if (child.extension === "md") node.notes++;
+			node.size += child.stat.size;
+			latest = Math.max(latest, child.stat.mtime);
+		} else if (child instanceof TFolder) {
+			const sub = describeFolder(child, security, depth - 1);
+			if (!sub) continue;
+			node.files += sub.files;
+			node.notes += sub.notes;
+			node.size += sub.size;
+			node.subfolders += 1 + sub.subfolders;
+			if (sub.modified) latest = Math.max(latest, Date.parse(sub.modified));
+			children.push(sub);
+		}
+	}
+
+	// Folders hidden by .mcpignore or outside the key's folders only show up as parents of visible content
+	if (!folder.isRoot() && !security.isAccessible(folder.path) && children.length === 0 && node.files === 0) {
+		return null;
+	}
+
+	node.modified = latest > 0 ? new Date(latest).toISOString() : null;
+	if (depth > 0) {
+		node.children = children.sort((a, b) => a.path.localeCompare(b.path));
+	}
+	return node;
+}
+
+/**
+ * Register folder management tools with the MCP server
+ */
+export function registerFolderTools(
+	app: App,
+	registerTool: RegisterTool
+): void {
+	// folder_tree - Describe a folder and its subfolders
+	registerTool(
+		{
+			name: "folder_tree",
+			description: "Show the folder tree with note and file counts, total size and last modification time per folder (counts include subfolders)",
+			inputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string", description: "Folder to describe (default: vault root)" },
+					depth: { type: "integer", minimum: 0, description: "Levels of subfolders to list (default: 2)" },
+					...FORMAT_PROPERTY,
+				},
+			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string" },
+					notes: { type: "number" },
+					files: { type: "number" },
+					size: { type: "number" },
+					modified: { type: ["string", "null"] },
+					subfolders: { type: "number" },
+					children: { type: "array", items: { type: "object" } },
+				},
+				required: ["path", "notes", "files", "size", "subfolders"],
+			},
+			annotations: { title: "Folder tree", readOnlyHint: true, openWorldHint: false },
+		},
+		(args, { security }): Promise<ToolResult> => {
+			try {
+				const path = (args.path as string | undefined) ?? "";
+				const folder = getFolder(app, path);
+				const node = describeFolder(folder, security, (args.depth as number | undefined) ?? 2);
+				if (!node) {
+					throw new ToolError("NOT_FOUND", `Folder not found: ${path}`);
+				}
+				return Promise.resolve(jsonResult({ ...node }));
+			} catch (error) {
+				return Promise.resolve(errorResult(error));
+			}
+		},
+		{ toMarkdown: renderTree }
+	);
+
+	// folder_create - Create an empty folder
+	registerTool(
+		{
+			name: "folder_create",
+			description: "Create a folder (and any missing parent folders)",
+			inputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string", description: "Folder path" },
+					...FORMAT_PROPERTY,
+				},
+				required: ["path"],
+			},
+			outputSchema: {
+				type: "object",
+				properties: { created: { type: "string" } },
+				required: ["created"],
+			},
+			annotations: {
+				title: "Create folder",
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
+		},
+		async (args, { security }): Promise<ToolResult> => {
+			try {
+				const path = security.validateWrite(args.path as string);
+				if (app.vault.getAbstractFileByPath(path)) {
+					throw new ToolError("CONFLICT", `Folder already exists: ${path}`);
+				}
+
+				const parts = path.split("/");
+				for (let i = 1; i <= parts.length; i++) {
+					const current = parts.slice(0, i).join("/");
+					if (!app.vault.getAbstractFileByPath(current)) {
+						await app.vault.createFolder(current);
+					}
+				}
+
+				return jsonResult({ created: path });
+			} catch (error) {
+				return errorResult(error);
+			}
+		},
+		{ isAvailable: (security) => security.canWrite }
+	);
+
+	// folder_rename - Rename or move a folder (via vault_move, so links are updated)
+	registerTool(
+		{
+			name: "folder_rename",
+			description: "Rename or move a folder with everything in it. Links to the moved notes are updated across the vault.",
+			inputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string", description: "Current folder path" },
+					newPath: { type: "string", description: "New folder path" },
+					...FORMAT_PROPERTY,
+				},
+				required: ["path", "newPath"],
+			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					from: { type: "string" },
+					to: { type: "string" },
+					movedFiles: { type: "number" },
+					notesUpdated: { type: "number" },
+					updatedNotes: { type: "array", items: { type: "string" } },
+					autoUpdateLinks: { type: "boolean" },
+				},
+				required: ["from", "to", "movedFiles", "notesUpdated"],
+			},
+			annotations: {
+				title: "Rename folder",
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
+		},
+		async (args, { security, callTool }): Promise<ToolResult> => {
+			try {
+				const path = security.validateWrite(args.path as string);
+				if (path === "/") {
+					throw new ToolError("INVALID_ARGUMENT", "Cannot rename the vault root", { argument: "path" });
+				}
+				getFolder(app, path);
+				return await callTool("vault_move", { path, newPath: args.newPath });
+			} catch (error) {
+				return errorResult(error);
+			}
+		},
+		{ isAvailable: (security) => security.canWrite }
+	);
+
+	// folder_delete - Move a folder and its contents to the trash
+	registerTool(
+		{
+			name: "folder_delete",
+			description: `Delete a folder (moves to trash). Folders that are not empty need recursive: true, and deleting more than ${BULK_DELETE_THRESHOLD} files also needs expectedFiles set to the number of files (see folder_tree).`,
+			inputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string", description: "Folder path" },
+					recursive: { type: "boolean", description: "Also delete the files and subfolders inside (default: false)" },
+					expectedFiles: {
+						type: "integer",
+						minimum: 0,
+						description: `Number of files the folder contains, required when it holds more than ${BULK_DELETE_THRESHOLD}`,
+					},
+					...FORMAT_PROPERTY,
+				},
+				required: ["path"],
+			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					deleted: { type: "string" },
+					files: { type: "number" },
+					movedToTrash: { type: "boolean" },
+				},
+				required: ["deleted", "files"],
+			},
+			annotations: {
+				title: "Delete folder",
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: true,
+				openWorldHint: false,
+			},
+		},
+		async (args, { security }): Promise<ToolResult> => {
+			try {
+				const path = security.validateWrite(args.path as string);
+				if (path === "/") {
+					throw new ToolError("INVALID_ARGUMENT", "Cannot delete the vault root", { argument: "path" });
+				}
+				const folder = getFolder(app, path);
+				const files = filesIn(folder);
+
+				if (folder.children.length > 0 && args.recursive !== true) {
+					throw new ToolError("CONFLICT", `Folder is not empty (${files.length} files); pass recursive: true to delete it with its contents`, {
+						files: files.length,
+					});
+				}
+				if (files.length > BULK_DELETE_THRESHOLD && args.expectedFiles !== files.length) {
+					throw new ToolError("INVALID_ARGUMENT", `Deleting ${files.length} files requires expectedFiles: ${files.length}`, {
+						argument: "expectedFiles",
+						files: files.length,
+					});
+				}
+				// Files hidden by .mcpignore or outside the key's folders block the whole deletion
+				for (const file of files) {
+					security.validateWrite(file.path);
+				}
+
+				await app.fileManager.trashFile(folder);
+
+				return jsonResult({ deleted: path, files: files.length, movedToTrash: true });
+			} catch (error) {
+				return errorResult(error);
+			}
+		},
+		{ isAvailable: (security) => security.canWrite }
+	);
+}
+
+/**
+ * Format a byte count for display
+ */
+function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * folder_tree as a nested bullet list
+ */
+function renderTree(data: Record<string, unknown>): string {
+	const lines: string[] = [];
+	const visit = (node: FolderNode, indent: string) => {
+		const name = node.path === "/" ? "/" : `${node.path.split("/").pop() ?? node.path}/`;
+		lines.push(`${indent}- ${name} (${node.notes} notes, ${node.files} files, ${formatSize(node.size)})`);
+		for (const child of node.children ?? []) {
+			visit(child, `${indent}  `);
+		}
+	};
+	visit(data as unknown as FolderNode, "");
+	return [lines.join("\n"), markdownMeta({ path: data.path, modified: data.modified })].join("\n\n");
+}
@@ -1,26 +1,17 @@
 import { App, TFile } from "obsidian";
-import { SecurityManager } from "../security/security-manager";
 import { getMetadataCacheWithBacklinks } from "../obsidian-internals";
-
-interface ToolResult {
-	content: Array<{ type: string; text: string }>;
-	isError?: boolean;
-}
+import { RegisterTool, ToolResult } from "./types";
+import { errorResult, jsonResult } from "./tool-result";
+import { FORMAT_PROPERTY, markdownList, markdownMeta } from "./output-format";
+import { ToolError } from "../errors";
+import { PAGE_PROPERTIES, decodeCursor, encodeCursor, pageItems } from "./pagination";
 
 /**
  * Register graph-related tools with the MCP server
  */
 export function registerGraphTools(
 	app: App,
-	security: SecurityManager,
-	registerTool: (
-		definition: {
-			name: string;
-			description: string;
-			inputSchema: object;
-		},
-		handler: (args: Record<string, unknown>) => Promise<ToolResult>
-	) => void
+	registerTool: RegisterTool
 ): void {
 	// graph_info - Get link statistics for a note
 	registerTool(
@@ -31,20 +22,31 @@ export function registerGraphTools(
 				type: "object",
 				properties: {
 					path: { type: "string", description: "Note path" },
+					...FORMAT_PROPERTY,
 				},
 				required: ["path"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string" },
+					inLinks: { type: "number" },
+					outLinks: { type: "number" },
+					unresolvedLinks: { type: "number" },
+					unresolvedLinksList: { type: "array", items: { type: "string" } },
+					tags: { type: "array", items: { type: "string" } },
+				},
+				required: ["path", "inLinks", "outLinks"],
+			},
+			annotations: { title: "Note link statistics", readOnlyHint: true, openWorldHint: false },
 		},
-		(args): Promise<ToolResult> => {
+		(args, { security }): Promise<ToolResult> => {
 			try {
 				const path = security.validateRead(args.path as string);
 
 				const file = app.vault.getAbstractFileByPath(path);
 				if (!file || !(file instanceof TFile)) {
-					return Promise.resolve({
-						content: [{ type: "text", text: `File not found: ${path}` }],
-						isError: true,
-					});
+					throw new ToolError("NOT_FOUND", `File not found: ${path}`);
 				}
 
 				const cache = app.metadataCache.getFileCache(file);
@@ -91,34 +93,19 @@ export function registerGraphTools(
 					}
 				}
 
-				return Promise.resolve({
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{
-									path,
-									inLinks,
-									outLinks: outLinks + embedLinks,
-									unresolvedLinks: unresolvedLinks.length,
-									unresolvedLinksList: unresolvedLinks,
-									tags,
-								},
-								null,
-								2
-							),
-						},
-					],
-				});
+				return Promise.resolve(jsonResult({
+					path,
+					inLinks,
+					outLinks: outLinks + embedLinks,
+					unresolvedLinks: unresolvedLinks.length,
+					unresolvedLinksList: unresolvedLinks,
+					tags,
+				}));
 			} catch (error) {
-				return Promise.resolve({
-					content: [
-						{ type: "text", text: error instanceof Error ? error.message : String(error) },
-					],
-					isError: true,
-				});
+				return Promise.resolve(errorResult(error));
 			}
-		}
+		},
+		{ toMarkdown: renderInfo }
 	);
 
 	// graph_links - Get backlinks and forward links
@@ -130,20 +117,38 @@ export function registerGraphTools(
 				type: "object",
 				properties: {
 					path: { type: "string", description: "Note path" },
+					...PAGE_PROPERTIES,
+					...FORMAT_PROPERTY,
 				},
 				required: ["path"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string" },
+					backlinks: { type: "array", items: { type: "string" } },
+					forwardLinks: { type: "array", items: { type: "string" } },
+					totalBacklinks: { type: "number" },
+					totalForwardLinks: { type: "number" },
+					nextCursor: { type: "string" },
+				},
+				required: ["path", "backlinks", "forwardLinks"],
+			},
+			annotations: {
+				title: "Note backlinks and forward links",
+				readOnlyHint: true,
+				openWorldHint: false,
+			},
 		},
-		(args): Promise<ToolResult> => {
+		(args, { security, maxResponseChars }): Promise<ToolResult> => {
 			try {
 				const path = security.validateRead(args.path as string);
+				const scope = { path };
+				const offset = args.cursor ? decodeCursor<number>(args.cursor as string, "graph_links", scope) : 0;
 
 				const file = app.vault.getAbstractFileByPath(path);
 				if (!file || !(file instanceof TFile)) {
-					return Promise.resolve({
-						content: [{ type: "text", text: `File not found: ${path}` }],
-						isError: true,
-					});
+					throw new ToolError("NOT_FOUND", `File not found: ${path}`);
 				}
 
 				const cache = app.metadataCache.getFileCache(file);
@@ -187,30 +192,61 @@ export function registerGraphTools(
 					}
 				}
 
-				return Promise.resolve({
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{
-									path,
-									backlinks: backlinks.sort(),
-									forwardLinks: forwardLinks.sort(),
-								},
-								null,
-								2
-							),
-						},
-					],
-				});
+				// Page through backlinks, then forward links, within the response size budget
+				backlinks.sort();
+				forwardLinks.sort();
+				const links = [
+					...backlinks.map((link) => ({ backlink: true, path: link })),
+					...forwardLinks.map((link) => ({ backlink: false, path: link })),
+				];
+				const page = pageItems(links, offset, maxResponseChars);
+
+				return Promise.resolve(jsonResult({
+					path,
+					backlinks: page.items.filter((link) => link.backlink).map((link) => link.path),
+					forwardLinks: page.items.filter((link) => !link.backlink).map((link) => link.path),
+					totalBacklinks: backlinks.length,
+					totalForwardLinks: forwardLinks.length,
+					...(page.next !== null && { nextCursor: encodeCursor("graph_links", scope, page.next) }),
+				}));
 			} catch (error) {
-				return Promise.resolve({
-					content: [
-						{ type: "text", text: error instanceof Error ? error.message : String(error) },
-					],
-					isError: true,
-				});
+				return Promise.resolve(errorResult(error));
 			}
-		}
+		},
+		{ toMarkdown: renderLinks }
 	);
 }
+
+/**
+ * graph_info as a bullet list of statistics
+ */
+function renderInfo(data: Record<string, unknown>): string {
+	const unresolved = (data.unresolvedLinksList as string[] | undefined) ?? [];
+	const tags = (data.tags as string[] | undefined) ?? [];
+	return [
+		`# ${data.path as string}`,
+		markdownList([
+			`Backlinks: ${String(data.inLinks)}`,
+			`Outgoing links: ${String(data.outLinks)}`,
+			`Unresolved links: ${String(data.unresolvedLinks)}${unresolved.length > 0 ? ` (${unresolved.join(", ")})` : ""}`,
+			`Tags: ${tags.length > 0 ? tags.join(" ") : "none"}`,
+		]),
+	].join("\n\n");
+}
+
+/**
+ * graph_links as two lists of wikilinks
+ */
+function renderLinks(data: Record<string, unknown>): string {
+	const links = (paths: string[]): string =>
+		paths.length > 0 ? markdownList(paths.map((path) => `[[${path}]]`)) : "_None_";
+	return [
+		`## Backlinks (${String(data.totalBacklinks)})`,
+		links(data.backlinks as string[]),
+		`## Forward links (${String(data.totalForwardLinks)})`,
+		links(data.forwardLinks as string[]),
+		markdownMeta({ nextCursor: data.nextCursor }),
+	]
+		.filter(Boolean)
+		.join("\n\n");
+}
@@ -0,0 +1,97 @@
+import type { ToolResult } from "./types";
+
+/**
+ * How the text content of a tool result is rendered:
+ * - json: pretty-printed JSON
+ * - compact: minified JSON
+ * - markdown: tool-specific Markdown (note bodies raw, tables, lists)
+ */
+export type OutputFormat = "json" | "compact" | "markdown";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "compact", "markdown"];
+
+/**
+ * Input property selecting the output format of a single call
+ */
+export const FORMAT_PROPERTY = {
+	format: {
+		type: "string",
+		enum: OUTPUT_FORMATS,
+		description: "Output format: json (default), compact (minified JSON) or markdown",
+	},
+} as const;
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+	return OUTPUT_FORMATS.includes(value as OutputFormat);
+}
+
+/**
+ * Re-render the text content of a successful result from its structured content.
+ * Errors, results without structured content and results carrying images or files are returned unchanged.
+ */
+export function formatResult(
+	result: ToolResult,
+	format: OutputFormat,
+	toMarkdown?: (data: Record<string, unknown>) => string
+): ToolResult {
+	const data = result.structuredContent;
+	if (format === "json" || result.isError || !data || result.content.some((block) => block.type !== "text")) {
+		return result;
+	}
+
+	const text =
+		format === "compact"
+			? JSON.stringify(data)
+			: toMarkdown
+				? toMarkdown(data)
+				: "```json\n" + JSON.stringify(data, null, 2) + "\n```";
+	return { ...result, content: [{ type: "text", text }] };
+}
+
+/**
+ * Render a value inline (links as wikilinks, objects as compact JSON)
+ */
+export function markdownValue(value: unknown): string {
+	if (value === null || value === undefined) return "";
+	if (typeof value === "string") return value;
+	if (typeof value === "number" || typeof value === "boolean") return String(value);
+	if (Array.isArray(value)) return value.map(markdownValue).join(", ");
+
+	const obj = value as Record<string, unknown>;
+	if (obj.type === "link" && typeof obj.path === "string") {
+		return obj.display && obj.display !== obj.path ? `[[${obj.path}|${markdownValue(obj.display)}]]` : `[[${obj.path}]]`;
+	}
+	if (obj.type === "date" && typeof obj.value === "string") {
+		return obj.value;
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * Render rows as a Markdown table
+ */
+export function markdownTable(headers: string[], rows: unknown[][]): string {
+	const cell = (value: unknown): string => markdownValue(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+	return [
+		`| ${headers.map(cell).join(" | ")} |`,
+		`| ${headers.map(() => "---").join(" | ")} |`,
+		...rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+	].join("\n");
+}
+
+/**
+ * Render items as a bullet list
+ */
+export function markdownList(items: unknown[]): string {
+	return items.map((item) => `- ${markdownValue(item).replace(/\r?\n/g, " ")}`).join("\n");
+}
+
+/**
+ * HTML comment carrying metadata (such as paging) that does not belong in the rendered text
+ */
+export function markdownMeta(fields: Record<string, unknown>): string {
+	const parts = Object.entries(fields)
+		.filter(([, value]) => value !== undefined && value !== null)
+		.map(([key, value]) => `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`);
+	return parts.length > 0 ? `<!-- ${parts.join("; ")} -->` : "";
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { ToolError } from "../errors";
+import { decodeCursor, encodeCursor, pageItems, pageText } from "./pagination";
+
+/**
+ * Run a function that should throw a ToolError and return the error
+ */
+function toolError(fn: () => unknown): ToolError {
+	try {
+		fn();
+	} catch (error) {
+		if (error instanceof ToolError) return error;
+		throw error;
+	}
+	throw new Error("Expected a ToolError");
+}
+
+function encodeJson(value: unknown): string {
+	return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("cursors", () => {
+	it("round-trips the position", () => {
+		const cursor = encodeCursor("vault_read", { path: "a.md" }, { line: 3, ch: 0 });
+		expect(decodeCursor(cursor, "vault_read", { path: "a.md" })).toEqual({ line: 3, ch: 0 });
+	});
+
+	it("rejects cursors issued for another tool", () => {
+		const cursor = encodeCursor("vault_read", { path: "a.md" }, 10);
+		const error = toolError(() => decodeCursor(cursor, "vault_search", { path: "a.md" }));
+		expect(error.code).toBe("INVALID_ARGUMENT");
+		expect(error.details).toEqual({ argument: "cursor" });
+	});
+
+	it("rejects cursors issued for other arguments", () => {
+		const cursor = encodeCursor("vault_read", { path: "a.md" }, 10);
+		const error = toolError(() => decodeCursor(cursor, "vault_read", { path: "b.md" }));
+		expect(error.code).toBe("INVALID_ARGUMENT");
+		expect(error.message).toMatch(/different arguments/);
+	});
+
+	it.each([
+		["not base64 JSON", "%%%"],
+		["null", encodeJson(null)],
+		["a number", encodeJson(42)],
+		["a string", encodeJson("cursor")],
+		["an array", encodeJson(["vault_read"])],
+		["an object without a position", encodeJson({ t: "vault_read" })],
+	])("rejects a cursor that decodes to %s", (_label, cursor) => {
+		const error = toolError(() => decodeCursor(cursor, "vault_read", {}));
+		expect(error.code).toBe("INVALID_ARGUMENT");
+		expect(error.details).toEqual({ argument: "cursor" });
+	});
+});
+
+describe("pageText", () => {
+	const content = "one\ntwo\nthree\nfour";
+
+	it("returns everything without a budget", () => {
+		const page = pageText(content, { line: 0, ch: 0 }, undefined, 0);
+		expect(page.text).toBe(content);
+		expect(page).toMatchObject({ startLine: 1, endLine: 4, totalLines: 4, next: null });
+	});
+
+	it("ends on a line boundary when the budget runs out", () => {
+		const page = pageText(content, { line: 0, ch: 0 }, undefined, 9);
+		expect(page.text).toBe("one\ntwo\n");
+		expect(page.next).toEqual({ line: 2, ch: 0 });
+		expect(page.endLine).toBe(2);
+	});
+
+	it("splits a line longer than the budget", () => {
+		const page = pageText("abcdefghij", { line: 0, ch: 0 }, undefined, 4);
+		expect(page.text).toBe("abcd");
+		expect(page.next).toEqual({ line: 0, ch: 4 });
+		const rest = pageText("abcdefghij", page.next!, undefined, 0);
+		expect(rest.text).toBe("efghij");
+	});
+
+	it("stops at endLine", () => {
+		const page = pageText(content, { line: 1, ch: 0 }, 3, 0);
+		expect(page.text).toBe("two\nthree");
+		expect(page).toMatchObject({ startLine: 2, endLine: 3, next: null });
+	});
+});
+
+describe("pageItems", () => {
+	it("takes items while they fit in the budget", () => {
+		const page = pageItems(["aaaa", "bbbb", "cccc"], 0, 15);
+		expect(page.items).toEqual(["aaaa", "bbbb"]);
+		expect(page.next).toBe(2);
+	});
+
+	it("always returns at least one item", () => {
+		const page = pageItems(["a very long item"], 0, 1);
+		expect(page.items).toEqual(["a very long item"]);
+		expect(page.next).toBeNull();
+	});
+
+	it("honors the offset and item limit", () => {
+		const page = pageItems([1, 2, 3, 4, 5], 1, 0, 2);
+		expect(page.items).toEqual([2, 3]);
+		expect(page.next).toBe(3);
+	});
+});
@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import { ToolError } from "../errors";
+
+/**
+ * Input properties shared by tools whose results are split into pages
+ */
+export const PAGE_PROPERTIES = {
+	cursor: {
+		type: "string",
+		description: "nextCursor from a previous truncated result, to get the next chunk (repeat the other arguments unchanged)",
+	},
+	maxChars: {
+		type: "integer",
+		minimum: 0,
+		description: "Maximum size of the returned chunk in characters (default: server setting, 0 = unlimited)",
+	},
+} as const;
+
+/**
+ * Position in a text: 0-based line and character within that line
+ */
+export interface TextPosition {
+	line: number;
+	ch: number;
+}
+
+export interface TextPage {
+	text: string;
+	/** 1-based line range covered by the chunk */
+	startLine: number;
+	endLine: number;
+	totalLines: number;
+	/** Where the next chunk starts (null if this is the last one) */
+	next: TextPosition | null;
+}
+
+export interface ItemPage<T> {
+	items: T[];
+	/** Offset of the next page (null if this is the last one) */
+	next: number | null;
+}
+
+/**
+ * Fingerprint of the arguments a cursor was issued for
+ */
+function scopeHash(scope: Record<string, unknown>): string {
+	return createHash("sha256").update(JSON.stringify(scope)).digest("base64url").slice(0, 12);
+}
+
+/**
+ * Build an opaque cursor for the next chunk of a tool result
+ * @param scope Arguments that must be the same when the cursor is used
+ */
+export function encodeCursor(tool: string, scope: Record<string, unknown>, position: unknown): string {
+	return Buffer.from(JSON.stringify({ t: tool, s: scopeHash(scope), p: position })).toString("base64url");
+}
+
+/**
+ * Read the position from a cursor issued by encodeCursor
+ * @throws ToolError if the cursor is malformed or was issued for other arguments
+ */
+export function decodeCursor<T>(cursor: string, tool: string, scope: Record<string, unknown>): T {
+	let decoded: unknown;
+	try {
+		decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+	} catch {
+		throw new ToolError("INVALID_ARGUMENT", "Invalid cursor", { argument: "cursor" });
+	}
+
+	if (typeof decoded !== "object" || decoded === null || Array.isArray(decoded)) {
+		throw new ToolError("INVALID_ARGUMENT", "Invalid cursor", { argument: "cursor" });
+	}
+	const { t, s, p } = decoded as { t?: unknown; s?: unknown; p?: unknown };
+	if (t !== tool || p === undefined) {
+		throw new ToolError("INVALID_ARGUMENT", "Invalid cursor", { argument: "cursor" });
+	}
+	if (s !== scopeHash(scope)) {
+		throw new ToolError("INVALID_ARGUMENT", "Cursor was issued for different arguments", {
+			argument: "cursor",
+		});
+	}
+	return p as T;
+}
+
+/**
+ * Take a chunk of text of at most `budget` characters, preferring to end on a line boundary
+ * @param endLine Last 1-based line to include (default: end of text)
+ * @param budget Maximum chunk size in characters (0 = unlimited)
+ */
+export function pageText(content: string, start: TextPosition, endLine: number | undefined, budget: number): TextPage {
+	const lines = content.split("\n");
+	const lastLine = Math.min(endLine ?? lines.length, lines.length);
+	const first = Math.max(0, start.line);
+
+	let text = "";
+	let line = first;
+	let ch = start.ch;
+	let next: TextPosition | null = null;
+
+	while (line < lastLine) {
+		const rest = (lines[line] ?? "").slice(ch) + (line < lastLine - 1 ? "\n" : "");
+		if (budget > 0 && text.length + rest.length > budget) {
+			if (text.length === 0) {
+				// A single line longer than the budget is split mid-line
+				text = rest.slice(0, budget);
+				next = { line, ch: ch + budget };
+			} else {
+				next = { line, ch };
+			}
+			break;
+		}
+		text += rest;
+		line++;
+		ch = 0;
+	}
+
+	const endLineNumber = next ? (next.ch > 0 ? next.line + 1 : next.line) : lastLine;
+	return {
+		text,
+		startLine: first + 1,
+		endLine: Math.max(first + 1, endLineNumber),
+		totalLines: lines.length,
+		next,
+	};
+}
+
+/**
+ * Take items from `offset` while their JSON size fits in the budget (always at least one)
+ * @param budget Maximum size in characters (0 = unlimited)
+ * @param maxItems Maximum number of items per page (0 = unlimited)
+ */
+export function pageItems<T>(items: T[], offset: number, budget: number, maxItems = 0): ItemPage<T> {
+	const page: T[] = [];
+	let size = 0;
+
+	for (let index = Math.max(0, offset); index < items.length; index++) {
+		if (maxItems > 0 && page.length >= maxItems) {
+			return { items: page, next: index };
+		}
+		const itemSize = JSON.stringify(items[index] ?? null).length + 1;
+		if (budget > 0 && page.length > 0 && size + itemSize > budget) {
+			return { items: page, next: index };
+		}
+		page.push(items[index] as T);
+		size += itemSize;
+	}
+
+	return { items: page, next: null };
+}
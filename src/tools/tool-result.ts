@@ -0,0 +1,54 @@
+import { ToolError } from "../errors";
+import type { ToolResult } from "./types";
+
+/**
+ * Build a successful tool result carrying the data both as structured content
+ * and as pretty-printed JSON text (for clients without structured output support)
+ */
+export function jsonResult(data: Record<string, unknown>): ToolResult {
+	return {
+		content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+		structuredContent: data,
+	};
+}
+
+/**
+ * Join the text blocks of a result (images and embedded files are skipped)
+ */
+export function resultText(result: ToolResult): string {
+	return result.content
+		.map((block) => (block.type === "text" ? block.text : null))
+		.filter((text) => text !== null)
+		.join("\n");
+}
+
+/**
+ * Build an error result carrying a machine-readable code
+ * Errors other than ToolError are reported as INTERNAL_ERROR
+ */
+export function errorResult(error: unknown): ToolResult {
+	const toolError =
+		error instanceof ToolError
+			? error
+			: new ToolError("INTERNAL_ERROR", error instanceof Error ? error.message : String(error));
+
+	return {
+		content: [
+			{
+				type: "text",
+				text: JSON.stringify(
+					{
+						error: {
+							code: toolError.code,
+							message: toolError.message,
+							...toolError.details,
+						},
+					},
+					null,
+					2
+				),
+			},
+		],
+		isError: true,
+	};
+}
@@ -0,0 +1,90 @@
+import type { SecurityManager } from "../security/security-manager";
+
+/**
+ * Content block of a tool result: text, an image, or an embedded binary file
+ */
+export type ToolContent =
+	| { type: "text"; text: string }
+	| { type: "image"; data: string; mimeType: string }
+	| { type: "resource"; resource: { uri: string; mimeType: string; blob: string } };
+
+/**
+ * Result returned by a tool handler
+ */
+export type ToolResult = {
+	content: ToolContent[];
+	/** Machine-readable result matching the tool's outputSchema */
+	structuredContent?: Record<string, unknown>;
+	isError?: boolean;
+};
+
+/**
+ * Behaviour hints for clients (see the MCP ToolAnnotations spec)
+ */
+export interface ToolAnnotations {
+	title?: string;
+	readOnlyHint?: boolean;
+	destructiveHint?: boolean;
+	idempotentHint?: boolean;
+	openWorldHint?: boolean;
+}
+
+/**
+ * Tool metadata advertised to clients
+ */
+export interface ToolDefinition {
+	name: string;
+	description: string;
+	inputSchema: object;
+	outputSchema?: object;
+	annotations?: ToolAnnotations;
+}
+
+/**
+ * Per-call context passed to tool handlers
+ */
+export interface ToolContext {
+	/** Security manager scoped to the API key of the calling session */
+	security: SecurityManager;
+	/** Aborted when the client cancels the request */
+	signal: AbortSignal;
+	/** Send a progress notification (no-op if the client did not ask for progress) */
+	reportProgress: (progress: number, total?: number, message?: string) => Promise<void>;
+	/** Call another tool as the same session, with the same checks, approval and audit */
+	callTool: (name: string, args: Record<string, unknown>) => Promise<ToolResult>;
+	/** Size budget for the result in characters: the maxChars argument or the server default (0 = unlimited) */
+	maxResponseChars: number;
+}
+
+export interface ToolHandler {
+	(args: Record<string, unknown>, context: ToolContext): Promise<ToolResult>;
+}
+
+/**
+ * Change a write tool would make, shown to the user when approval is required
+ */
+export interface ToolPreview {
+	path: string;
+	/** Current content (null if the file does not exist yet) */
+	before: string | null;
+	/** Resulting content (null if the file is deleted) */
+	after: string | null;
+}
+
+/**
+ * Registration options controlling when a tool is advertised
+ */
+export interface ToolOptions {
+	/** Whether the tool is currently usable by a session (default: always) */
+	isAvailable?: (security: SecurityManager) => boolean;
+	/** Compute the change the call would make, without applying it */
+	preview?: (args: Record<string, unknown>, security: SecurityManager) => Promise<ToolPreview | null>;
+	/** Render the structured result as Markdown for the markdown output format */
+	toMarkdown?: (data: Record<string, unknown>) => string;
+}
+
+export type RegisterTool = (
+	definition: ToolDefinition,
+	handler: ToolHandler,
+	options?: ToolOptions
+) => void;
@@ -0,0 +1,117 @@
+import { ToolError } from "../errors";
+
+/**
+ * Subset of JSON Schema used by tool input schemas
+ */
+interface JsonSchema {
+	type?: string | string[];
+	enum?: unknown[];
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	additionalProperties?: boolean | JsonSchema;
+	items?: JsonSchema;
+	anyOf?: JsonSchema[];
+	minimum?: number;
+	maximum?: number;
+}
+
+/**
+ * JSON Schema type name of a value
+ */
+function typeOf(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	switch (type) {
+		case "integer":
+			return typeof value === "number" && Number.isInteger(value);
+		case "number":
+			return typeof value === "number" && Number.isFinite(value);
+		case "object":
+			return typeOf(value) === "object";
+		default:
+			return typeOf(value) === type;
+	}
+}
+
+/**
+ * Return a description of the first violation, or null if the value matches the schema
+ */
+function findViolation(value: unknown, schema: JsonSchema, at: string): { argument: string; message: string } | null {
+	if (schema.anyOf) {
+		const matches = schema.anyOf.some((option) => findViolation(value, option, at) === null);
+		if (!matches) {
+			return { argument: at, message: `${at} does not match any of the allowed forms` };
+		}
+	}
+
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((type) => matchesType(value, type))) {
+			return { argument: at, message: `${at} must be of type ${types.join(" or ")}, got ${typeOf(value)}` };
+		}
+	}
+
+	if (schema.enum && !schema.enum.includes(value)) {
+		return {
+			argument: at,
+			message: `${at} must be one of: ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+		};
+	}
+
+	if (typeof value === "number") {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			return { argument: at, message: `${at} must be at least ${schema.minimum}` };
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			return { argument: at, message: `${at} must be at most ${schema.maximum}` };
+		}
+	}
+
+	if (Array.isArray(value) && schema.items) {
+		for (let i = 0; i < value.length; i++) {
+			const violation = findViolation(value[i], schema.items, `${at}[${i}]`);
+			if (violation) return violation;
+		}
+	}
+
+	if (typeOf(value) === "object") {
+		const object = value as Record<string, unknown>;
+		for (const key of schema.required ?? []) {
+			if (object[key] === undefined) {
+				const path = at ? `${at}.${key}` : key;
+				return { argument: path, message: `Missing required argument: ${path}` };
+			}
+		}
+
+		for (const [key, propertyValue] of Object.entries(object)) {
+			const path = at ? `${at}.${key}` : key;
+			const propertySchema = schema.properties?.[key];
+			if (propertySchema) {
+				const violation = findViolation(propertyValue, propertySchema, path);
+				if (violation) return violation;
+			} else if (schema.additionalProperties === false) {
+				return { argument: path, message: `Unknown argument: ${path}` };
+			} else if (typeof schema.additionalProperties === "object") {
+				const violation = findViolation(propertyValue, schema.additionalProperties, path);
+				if (violation) return violation;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Check tool arguments against the tool's inputSchema
+ * @throws ToolError (INVALID_ARGUMENT) describing the first violation
+ */
+export function validateArguments(schema: object, args: Record<string, unknown>): void {
+	const violation = findViolation(args, schema as JsonSchema, "");
+	if (violation) {
+		throw new ToolError("INVALID_ARGUMENT", violation.message, { argument: violation.argument });
+	}
+}
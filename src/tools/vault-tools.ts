@@ -1,5 +1,13 @@
-import { App, TFile } from "obsidian";
-import { SecurityManager } from "../security/security-manager";
+import { App, TAbstractFile, TFile, TFolder } from "obsidian";
+import { RegisterTool, ToolResult } from "./types";
+import { errorResult, jsonResult } from "./tool-result";
+import { FORMAT_PROPERTY, markdownList, markdownMeta } from "./output-format";
+import { ToolError } from "../errors";
+import { PAGE_PROPERTIES, TextPosition, decodeCursor, encodeCursor, pageItems, pageText } from "./pagination";
+import { FILE_TYPES, getFileType, getMimeType, isTextFile } from "../utils/file-types";
+import { noteUri } from "../resources";
+import { isLinkUpdatingEnabled } from "../obsidian-internals";
+import { EXPECTED_HASH_PROPERTY, checkExpectedHash, trackContent } from "./content-hash";
 
 /**
  * Simple glob pattern matching
@@ -25,57 +33,163 @@ function matchGlob(path: string, pattern: string): boolean {
 	}
 }
 
-interface ToolResult {
-	content: Array<{ type: string; text: string }>;
-	isError?: boolean;
+/**
+ * Read an attachment as image content or as a base64 resource
+ * @param maxSize Size limit in bytes (0 = unlimited)
+ */
+async function readAttachment(app: App, file: TFile, maxSize: number): Promise<ToolResult> {
+	if (maxSize > 0 && file.stat.size > maxSize) {
+		throw new ToolError("TOO_LARGE", `File is larger than the attachment size limit: ${file.path}`, {
+			size: file.stat.size,
+			maxSize,
+		});
+	}
+
+	const type = getFileType(file.extension);
+	const mimeType = getMimeType(file.extension);
+	const data = Buffer.from(await app.vault.readBinary(file)).toString("base64");
+	return {
+		content: [
+			type === "image"
+				? { type: "image", data, mimeType }
+				: { type: "resource", resource: { uri: noteUri(file.path), mimeType, blob: data } },
+		],
+		structuredContent: {
+			path: file.path,
+			type,
+			mimeType,
+			size: file.stat.size,
+			mtime: new Date(file.stat.mtime).toISOString(),
+		},
+	};
 }
 
+/**
+ * All files inside a folder, recursively
+ */
+export function filesIn(folder: TFolder): TFile[] {
+	const files: TFile[] = [];
+	const visit = (child: TAbstractFile) => {
+		if (child instanceof TFile) {
+			files.push(child);
+		} else if (child instanceof TFolder) {
+			child.children.forEach(visit);
+		}
+	};
+	folder.children.forEach(visit);
+	return files;
+}
+
+// vault_search sends a progress notification every this many files
+const SEARCH_PROGRESS_INTERVAL = 50;
+
 /**
  * Register all vault-related tools with the MCP server
+ * @param getMaxAttachmentSize Largest binary file vault_read returns, in bytes (0 = unlimited)
  */
 export function registerVaultTools(
 	app: App,
-	security: SecurityManager,
-	registerTool: (
-		definition: {
-			name: string;
-			description: string;
-			inputSchema: object;
-		},
-		handler: (args: Record<string, unknown>) => Promise<ToolResult>
-	) => void
+	getMaxAttachmentSize: () => number,
+	registerTool: RegisterTool
 ): void {
 	// vault_list - List files and folders
 	registerTool(
 		{
 			name: "vault_list",
-			description: "List files and folders in the vault",
+			description: "List files and folders in the vault. Lists notes by default; use type or extensions to list attachments such as images, PDFs, audio or canvases.",
 			inputSchema: {
 				type: "object",
 				properties: {
 					path: { type: "string", description: "Folder path prefix (default: root)" },
 					pattern: { type: "string", description: "Glob pattern to match (e.g., '*.md', 'projects/**', '**/README.md')" },
+					type: {
+						type: "string",
+						enum: [...FILE_TYPES, "all"],
+						description: "Kind of files to list (default: note, or all when extensions is set)",
+					},
+					extensions: {
+						type: "array",
+						items: { type: "string" },
+						description: "Only list files with these extensions (e.g., ['png', 'jpg'])",
+					},
+					includeHash: {
+						type: "boolean",
+						description: "Include each note's content hash and modification time, for use as expectedHash in write tools (default: false)",
+					},
 					sort: { type: "string", enum: ["alphabetical", "modified", "created"], description: "Sort order (default: alphabetical). 'modified' sorts by last modified time descending, 'created' by creation time descending." },
 					limit: { type: "number", description: "Max number of files to return (default: 100, use -1 for all)" },
 					offset: { type: "number", description: "Number of files to skip for pagination (default: 0)" },
+					...PAGE_PROPERTIES,
+					...FORMAT_PROPERTY,
+				},
+			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					folders: { type: "array", items: { type: "string" } },
+					files: {
+						type: "array",
+						items: {
+							anyOf: [
+								{ type: "string" },
+								{
+									type: "object",
+									properties: {
+										path: { type: "string" },
+										type: { type: "string" },
+										extension: { type: "string" },
+										mtime: { type: "string" },
+										ctime: { type: "string" },
+										size: { type: "number" },
+										hash: { type: "string" },
+									},
+								},
+							],
+						},
+					},
+					total: { type: "number" },
+					returned: { type: "number" },
+					offset: { type: "number" },
+					sort: { type: "string" },
+					hasMore: { type: "boolean" },
+					nextCursor: { type: "string" },
 				},
+				required: ["folders", "files", "total", "hasMore"],
 			},
+			annotations: { title: "List vault files", readOnlyHint: true, openWorldHint: false },
 		},
-		(args): Promise<ToolResult> => {
+		async (args, { security, maxResponseChars }): Promise<ToolResult> => {
 			const requestedPath = (args.path as string) || "";
 			const pattern = args.pattern as string | undefined;
 			const sort = (args.sort as string) || "alphabetical";
 			const rawLimit = (args.limit as number | undefined) ?? 100;
 			const limit = rawLimit === -1 ? undefined : rawLimit;
-			const offset = (args.offset as number) || 0;
+			const extensions = (args.extensions as string[] | undefined)?.map((ext) => ext.replace(/^\./, "").toLowerCase());
+			const type = (args.type as string | undefined) ?? (extensions ? "all" : "note");
+			const includeHash = args.includeHash === true;
+			const scope = { path: requestedPath, pattern, sort, limit, type, extensions, includeHash };
+			let offset: number;
+			try {
+				offset = args.cursor
+					? decodeCursor<number>(args.cursor as string, "vault_list", scope)
+					: (args.offset as number) || 0;
+			} catch (error) {
+				return errorResult(error);
+			}
 
-			const files = app.vault.getMarkdownFiles();
+			const files = type === "note" ? app.vault.getMarkdownFiles() : app.vault.getFiles();
 
-			// Filter by path prefix, pattern, and security
+			// Filter by path prefix, type, extension, pattern, and security
 			const filtered = files.filter((f) => {
 				if (requestedPath && !f.path.startsWith(requestedPath)) {
 					return false;
 				}
+				if (type !== "all" && getFileType(f.extension) !== type) {
+					return false;
+				}
+				if (extensions && !extensions.includes(f.extension.toLowerCase())) {
+					return false;
+				}
 				if (pattern && !matchGlob(f.path, pattern)) {
 					return false;
 				}
@@ -93,23 +207,34 @@ export function registerVaultTools(
 
 			// Apply pagination
 			const totalFiles = filtered.length;
-			const paginated = limit
+			const candidates = limit
 				? filtered.slice(offset, offset + limit)
 				: filtered.slice(offset);
 
-			// Build file entries with metadata when sorting by time
+			// Build file entries with metadata when sorting by time, listing attachments or hashing
 			const includeTimestamps = sort === "modified" || sort === "created";
-			const fileEntries = paginated.map((f) => {
-				if (includeTimestamps) {
-					return {
+			const includeTypes = type !== "note";
+			const entries = [];
+			for (const f of candidates) {
+				if (includeTimestamps || includeTypes || includeHash) {
+					entries.push({
 						path: f.path,
-						mtime: new Date(f.stat.mtime).toISOString(),
-						ctime: new Date(f.stat.ctime).toISOString(),
+						...(includeTypes && { type: getFileType(f.extension), extension: f.extension }),
+						...((includeTimestamps || includeHash) && { mtime: new Date(f.stat.mtime).toISOString() }),
+						...(includeTimestamps && { ctime: new Date(f.stat.ctime).toISOString() }),
 						size: f.stat.size,
-					};
+						...(includeHash && isTextFile(f.extension) && { hash: trackContent(f.path, await app.vault.cachedRead(f)) }),
+					});
+				} else {
+					entries.push(f.path);
 				}
-				return f.path;
-			});
+			}
+
+			// Stay within the response size budget
+			const page = pageItems(entries, 0, maxResponseChars);
+			const fileEntries = page.items;
+			const paginated = candidates.slice(0, fileEntries.length);
+			const nextOffset = offset + paginated.length;
 
 			// Group by folder for better structure
 			const folders = new Set<string>();
@@ -125,82 +250,99 @@ export function registerVaultTools(
 				}
 			}
 
-			return Promise.resolve({
-				content: [
-					{
-						type: "text",
-						text: JSON.stringify(
-							{
-								folders: Array.from(folders).sort(),
-								files: fileEntries,
-								total: totalFiles,
-								returned: paginated.length,
-								offset,
-								sort,
-								hasMore: offset + paginated.length < totalFiles,
-							},
-							null,
-							2
-						),
-					},
-				],
+			return jsonResult({
+				folders: Array.from(folders).sort(),
+				files: fileEntries,
+				total: totalFiles,
+				returned: paginated.length,
+				offset,
+				sort,
+				hasMore: nextOffset < totalFiles,
+				...(nextOffset < totalFiles && { nextCursor: encodeCursor("vault_list", scope, nextOffset) }),
 			});
-		}
+		},
+		{ toMarkdown: renderList }
 	);
 
 	// vault_read - Read note content with frontmatter
 	registerTool(
 		{
 			name: "vault_read",
-			description: "Read a note's content and frontmatter",
+			description: "Read a note's content and frontmatter. Long notes are returned in chunks: pass nextCursor back as cursor to continue, or read a line range. Images are returned as image content and other binary files (PDFs, audio, video) as base64 resources, up to a size limit.",
 			inputSchema: {
 				type: "object",
 				properties: {
-					path: { type: "string", description: "Note path" },
+					path: { type: "string", description: "Note or attachment path" },
+					startLine: { type: "integer", minimum: 1, description: "First line to read (1-based, default: 1)" },
+					endLine: { type: "integer", minimum: 1, description: "Last line to read (inclusive, default: end of note)" },
+					...PAGE_PROPERTIES,
+					...FORMAT_PROPERTY,
 				},
 				required: ["path"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string" },
+					content: { type: "string" },
+					frontmatter: { type: ["object", "null"] },
+					hash: { type: "string" },
+					mtime: { type: "string" },
+					type: { type: "string" },
+					mimeType: { type: "string" },
+					size: { type: "number" },
+					startLine: { type: "number" },
+					endLine: { type: "number" },
+					totalLines: { type: "number" },
+					truncated: { type: "boolean" },
+					nextCursor: { type: "string" },
+				},
+				required: ["path"],
+			},
+			annotations: { title: "Read note", readOnlyHint: true, openWorldHint: false },
 		},
-		async (args): Promise<ToolResult> => {
+		async (args, { security, maxResponseChars }): Promise<ToolResult> => {
 			try {
 				const path = security.validateRead(args.path as string);
 				const file = app.vault.getAbstractFileByPath(path);
 
 				if (!file || !(file instanceof TFile)) {
-					return {
-						content: [{ type: "text", text: `File not found: ${path}` }],
-						isError: true,
-					};
+					throw new ToolError("NOT_FOUND", `File not found: ${path}`);
 				}
 
+				if (!isTextFile(file.extension)) {
+					return await readAttachment(app, file, getMaxAttachmentSize());
+				}
+
+				const startLine = (args.startLine as number | undefined) ?? 1;
+				const endLine = args.endLine as number | undefined;
+				const scope = { path, startLine, endLine };
+				const start = args.cursor
+					? decodeCursor<TextPosition>(args.cursor as string, "vault_read", scope)
+					: { line: startLine - 1, ch: 0 };
+
 				const content = await app.vault.read(file);
 				const cache = app.metadataCache.getFileCache(file);
-
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(
-								{
-									path,
-									content,
-									frontmatter: cache?.frontmatter || null,
-								},
-								null,
-								2
-							),
-						},
-					],
-				};
+				const page = pageText(content, start, endLine, maxResponseChars);
+
+				return jsonResult({
+					path,
+					content: page.text,
+					frontmatter: cache?.frontmatter || null,
+					// Hash of the whole note, also when only a chunk is returned
+					hash: trackContent(path, content),
+					mtime: new Date(file.stat.mtime).toISOString(),
+					startLine: page.startLine,
+					endLine: page.endLine,
+					totalLines: page.totalLines,
+					truncated: page.next !== null,
+					...(page.next && { nextCursor: encodeCursor("vault_read", scope, page.next) }),
+				});
 			} catch (error) {
-				return {
-					content: [
-						{ type: "text", text: error instanceof Error ? error.message : String(error) },
-					],
-					isError: true,
-				};
+				return errorResult(error);
 			}
-		}
+		},
+		{ toMarkdown: renderRead }
 	);
 
 	// vault_create - Create new note
@@ -213,11 +355,24 @@ export function registerVaultTools(
 				properties: {
 					path: { type: "string", description: "Note path" },
 					content: { type: "string", description: "Note content" },
+					...FORMAT_PROPERTY,
 				},
 				required: ["path", "content"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: { created: { type: "string" } },
+				required: ["created"],
+			},
+			annotations: {
+				title: "Create note",
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
 		},
-		async (args): Promise<ToolResult> => {
+		async (args, { security }): Promise<ToolResult> => {
 			try {
 				const path = security.validateWrite(args.path as string);
 				const content = args.content as string;
@@ -228,10 +383,7 @@ export function registerVaultTools(
 				// Check if file already exists
 				const existing = app.vault.getAbstractFileByPath(normalizedPath);
 				if (existing) {
-					return {
-						content: [{ type: "text", text: `File already exists: ${normalizedPath}` }],
-						isError: true,
-					};
+					throw new ToolError("CONFLICT", `File already exists: ${normalizedPath}`);
 				}
 
 				// Create parent folders if needed
@@ -245,22 +397,21 @@ export function registerVaultTools(
 
 				await app.vault.create(normalizedPath, content);
 
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify({ created: normalizedPath }, null, 2),
-						},
-					],
-				};
+				return jsonResult({ created: normalizedPath });
 			} catch (error) {
-				return {
-					content: [
-						{ type: "text", text: error instanceof Error ? error.message : String(error) },
-					],
-					isError: true,
-				};
+				return errorResult(error);
 			}
+		},
+		{
+			isAvailable: (security) => security.canWrite,
+			preview: (args, security) => {
+				const path = security.validateWrite(args.path as string);
+				return Promise.resolve({
+					path: path.endsWith(".md") ? path : `${path}.md`,
+					before: null,
+					after: args.content as string,
+				});
+			},
 		}
 	);
 
@@ -274,41 +425,50 @@ export function registerVaultTools(
 				properties: {
 					path: { type: "string", description: "Note path" },
 					content: { type: "string", description: "New content" },
+					...EXPECTED_HASH_PROPERTY,
+					...FORMAT_PROPERTY,
 				},
 				required: ["path", "content"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: { updated: { type: "string" }, hash: { type: "string" } },
+				required: ["updated"],
+			},
+			annotations: {
+				title: "Replace note content",
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: true,
+				openWorldHint: false,
+			},
 		},
-		async (args): Promise<ToolResult> => {
+		async (args, { security }): Promise<ToolResult> => {
 			try {
 				const path = security.validateWrite(args.path as string);
 				const content = args.content as string;
 
 				const file = app.vault.getAbstractFileByPath(path);
 				if (!file || !(file instanceof TFile)) {
-					return {
-						content: [{ type: "text", text: `File not found: ${path}` }],
-						isError: true,
-					};
+					throw new ToolError("NOT_FOUND", `File not found: ${path}`);
 				}
 
+				checkExpectedHash(path, await app.vault.read(file), args.expectedHash, security);
 				await app.vault.modify(file, content);
 
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify({ updated: path }, null, 2),
-						},
-					],
-				};
+				return jsonResult({ updated: path, hash: trackContent(path, content) });
 			} catch (error) {
-				return {
-					content: [
-						{ type: "text", text: error instanceof Error ? error.message : String(error) },
-					],
-					isError: true,
-				};
+				return errorResult(error);
 			}
+		},
+		{
+			isAvailable: (security) => security.canWrite,
+			preview: async (args, security) => {
+				const path = security.validateWrite(args.path as string);
+				const file = app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile)) return null;
+				return { path, before: await app.vault.read(file), after: args.content as string };
+			},
 		}
 	);
 
@@ -321,44 +481,168 @@ export function registerVaultTools(
 				type: "object",
 				properties: {
 					path: { type: "string", description: "Note path" },
+					...EXPECTED_HASH_PROPERTY,
+					...FORMAT_PROPERTY,
 				},
 				required: ["path"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: { deleted: { type: "string" }, movedToTrash: { type: "boolean" } },
+				required: ["deleted"],
+			},
+			annotations: {
+				title: "Delete note",
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: true,
+				openWorldHint: false,
+			},
 		},
-		async (args): Promise<ToolResult> => {
+		async (args, { security }): Promise<ToolResult> => {
 			try {
 				const path = security.validateWrite(args.path as string);
 
 				const file = app.vault.getAbstractFileByPath(path);
 				if (!file || !(file instanceof TFile)) {
-					return {
-						content: [{ type: "text", text: `File not found: ${path}` }],
-						isError: true,
-					};
+					throw new ToolError("NOT_FOUND", `File not found: ${path}`);
+				}
+
+				if (args.expectedHash !== undefined) {
+					checkExpectedHash(path, await app.vault.read(file), args.expectedHash, security);
 				}
 
 				// Use FileManager.trashFile to respect user's file deletion preference
 				await app.fileManager.trashFile(file);
 
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify({ deleted: path, movedToTrash: true }, null, 2),
-						},
-					],
-				};
+				return jsonResult({ deleted: path, movedToTrash: true });
 			} catch (error) {
-				return {
-					content: [
-						{ type: "text", text: error instanceof Error ? error.message : String(error) },
-					],
-					isError: true,
-				};
+				return errorResult(error);
 			}
+		},
+		{
+			isAvailable: (security) => security.canWrite,
+			preview: async (args, security) => {
+				const path = security.validateWrite(args.path as string);
+				const file = app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile)) return null;
+				return { path, before: await app.vault.read(file), after: null };
+			},
 		}
 	);
 
+	// vault_move - Move or rename a note, attachment or folder, updating links to it
+	registerTool(
+		{
+			name: "vault_move",
+			description: "Move or rename a note, attachment or folder. Links to the moved files are updated across the vault (if enabled in Obsidian's settings), unlike creating a copy and deleting the original.",
+			inputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string", description: "Current path of the file or folder" },
+					newPath: { type: "string", description: "New path (the file's extension is kept if omitted)" },
+					...EXPECTED_HASH_PROPERTY,
+					...FORMAT_PROPERTY,
+				},
+				required: ["path", "newPath"],
+			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					from: { type: "string" },
+					to: { type: "string" },
+					movedFiles: { type: "number" },
+					notesUpdated: { type: "number" },
+					updatedNotes: { type: "array", items: { type: "string" } },
+					autoUpdateLinks: { type: "boolean" },
+				},
+				required: ["from", "to", "movedFiles", "notesUpdated"],
+			},
+			annotations: {
+				title: "Move or rename",
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: false,
+				openWorldHint: false,
+			},
+		},
+		async (args, { security }): Promise<ToolResult> => {
+			try {
+				const from = security.validateWrite(args.path as string);
+				const source = app.vault.getAbstractFileByPath(from);
+				if (!source) {
+					throw new ToolError("NOT_FOUND", `File not found: ${from}`);
+				}
+
+				let to = security.validateWrite(args.newPath as string);
+				if (source instanceof TFile && !(to.split("/").pop() ?? "").includes(".")) {
+					to = `${to}.${source.extension}`;
+				}
+				if (to === from) {
+					throw new ToolError("INVALID_ARGUMENT", "newPath is the same as path", { argument: "newPath" });
+				}
+				if (source instanceof TFolder && to.startsWith(`${from}/`)) {
+					throw new ToolError("INVALID_ARGUMENT", "Cannot move a folder into itself", { argument: "newPath" });
+				}
+				if (app.vault.getAbstractFileByPath(to)) {
+					throw new ToolError("CONFLICT", `File already exists: ${to}`);
+				}
+
+				if (args.expectedHash !== undefined) {
+					if (!(source instanceof TFile)) {
+						throw new ToolError("INVALID_ARGUMENT", "expectedHash only applies to files", { argument: "expectedHash" });
+					}
+					checkExpectedHash(from, await app.vault.read(source), args.expectedHash, security);
+				}
+
+				// Every moved file must be writable at its old and new location
+				const files = source instanceof TFolder ? filesIn(source) : source instanceof TFile ? [source] : [];
+				for (const file of files) {
+					security.validateWrite(file.path);
+					security.validateWrite(to + file.path.slice(from.length));
+				}
+
+				const parentPath = to.split("/").slice(0, -1).join("/");
+				if (parentPath && !app.vault.getAbstractFileByPath(parentPath)) {
+					await app.vault.createFolder(parentPath);
+				}
+
+				// Notes linking to the moved files, watched for the link rewrites Obsidian makes
+				const movedPaths = new Set(files.map((file) => file.path));
+				const linking = new Set(
+					Object.entries(app.metadataCache.resolvedLinks)
+						.filter(([, targets]) => Object.keys(targets).some((target) => movedPaths.has(target)))
+						.map(([notePath]) => notePath)
+				);
+				const updated = new Set<string>();
+				const ref = app.vault.on("modify", (file) => {
+					// Moved notes are matched by their old path
+					const inMoved = file.path === to || file.path.startsWith(`${to}/`);
+					if (linking.has(inMoved ? from + file.path.slice(to.length) : file.path)) {
+						updated.add(file.path);
+					}
+				});
+				try {
+					await app.fileManager.renameFile(source, to);
+				} finally {
+					app.vault.offref(ref);
+				}
+
+				return jsonResult({
+					from,
+					to,
+					movedFiles: files.length,
+					notesUpdated: updated.size,
+					updatedNotes: Array.from(updated).sort(),
+					autoUpdateLinks: isLinkUpdatingEnabled(app),
+				});
+			} catch (error) {
+				return errorResult(error);
+			}
+		},
+		{ isAvailable: (security) => security.canWrite }
+	);
+
 	// vault_search - Search notes by content
 	registerTool(
 		{
@@ -369,23 +653,68 @@ export function registerVaultTools(
 				properties: {
 					query: { type: "string", description: "Search query" },
 					path: { type: "string", description: "Limit to folder (optional)" },
+					...PAGE_PROPERTIES,
+					...FORMAT_PROPERTY,
 				},
 				required: ["query"],
 			},
+			outputSchema: {
+				type: "object",
+				properties: {
+					query: { type: "string" },
+					results: {
+						type: "array",
+						items: {
+							type: "object",
+							properties: {
+								path: { type: "string" },
+								matches: { type: "array", items: { type: "string" } },
+							},
+							required: ["path", "matches"],
+						},
+					},
+					totalMatches: { type: "number" },
+					shown: { type: "number" },
+					offset: { type: "number" },
+					nextCursor: { type: "string" },
+				},
+				required: ["results", "totalMatches"],
+			},
+			annotations: { title: "Search note content", readOnlyHint: true, openWorldHint: false },
 		},
-		async (args): Promise<ToolResult> => {
+		async (args, { security, signal, reportProgress, maxResponseChars }): Promise<ToolResult> => {
 			const query = (args.query as string).toLowerCase();
 			const pathFilter = args.path as string | undefined;
+			const scope = { query, path: pathFilter };
+			let offset = 0;
+			try {
+				if (args.cursor) {
+					offset = decodeCursor<number>(args.cursor as string, "vault_search", scope);
+				}
+			} catch (error) {
+				return errorResult(error);
+			}
 
-			const files = app.vault.getMarkdownFiles();
+			// Check security and path filter up front so progress has a real total
+			const files = app.vault
+				.getMarkdownFiles()
+				.filter(
+					(file) =>
+						security.isAccessible(file.path) &&
+						(!pathFilter || file.path.startsWith(pathFilter))
+				);
 			const results: Array<{ path: string; matches: string[] }> = [];
 
-			for (const file of files) {
-				// Check security
-				if (!security.isAccessible(file.path)) continue;
+			for (let index = 0; index < files.length; index++) {
+				const file = files[index]!;
 
-				// Check path filter
-				if (pathFilter && !file.path.startsWith(pathFilter)) continue;
+				if (signal.aborted) {
+					return errorResult(new ToolError("CANCELLED", "Search cancelled"));
+				}
+
+				if (index % SEARCH_PROGRESS_INTERVAL === 0) {
+					await reportProgress(index, files.length, `Scanned ${index} of ${files.length} files`);
+				}
 
 				try {
 					const content = await app.vault.cachedRead(file);
@@ -411,26 +740,73 @@ export function registerVaultTools(
 				}
 			}
 
-			// Limit total results
-			const limitedResults = results.slice(0, 20);
-
-			return {
-				content: [
-					{
-						type: "text",
-						text: JSON.stringify(
-							{
-								query,
-								results: limitedResults,
-								totalMatches: results.length,
-								shown: limitedResults.length,
-							},
-							null,
-							2
-						),
-					},
-				],
-			};
-		}
+			await reportProgress(files.length, files.length, `Scanned ${files.length} files`);
+
+			// Limit results per page, within the response size budget
+			const page = pageItems(results, offset, maxResponseChars, 20);
+
+			return jsonResult({
+				query,
+				results: page.items,
+				totalMatches: results.length,
+				shown: page.items.length,
+				offset,
+				...(page.next !== null && { nextCursor: encodeCursor("vault_search", scope, page.next) }),
+			});
+		},
+		{ toMarkdown: renderSearch }
 	);
 }
+
+/**
+ * vault_list as a bullet list of paths (with modification times when sorted by time)
+ */
+function renderList(data: Record<string, unknown>): string {
+	const files = data.files as Array<string | { path: string; type?: string; mtime?: string; hash?: string }>;
+	const items = files.map((file) => {
+		if (typeof file === "string") return file;
+		const details = [file.type, file.mtime && `modified ${file.mtime}`, file.hash && `hash ${file.hash}`].filter(Boolean);
+		return details.length > 0 ? `${file.path} (${details.join(", ")})` : file.path;
+	});
+	return [
+		markdownList(items),
+		markdownMeta({
+			total: data.total,
+			offset: data.offset,
+			nextCursor: data.nextCursor,
+		}),
+	]
+		.filter(Boolean)
+		.join("\n\n");
+}
+
+/**
+ * vault_read as the raw note body
+ */
+function renderRead(data: Record<string, unknown>): string {
+	const meta = markdownMeta({
+		path: data.path,
+		lines: data.truncated ? `${String(data.startLine)}-${String(data.endLine)} of ${String(data.totalLines)}` : undefined,
+		nextCursor: data.nextCursor,
+		hash: data.hash,
+		mtime: data.mtime,
+	});
+	return `${meta}\n${data.content as string}`;
+}
+
+/**
+ * vault_search hits as a bullet list per file
+ */
+function renderSearch(data: Record<string, unknown>): string {
+	const results = data.results as Array<{ path: string; matches: string[] }>;
+	if (results.length === 0) {
+		return `No matches for "${data.query as string}"`;
+	}
+	const list = results
+		.map((result) => [`- [[${result.path}]]`, ...result.matches.map((match) => `  - ${match}`)].join("\n"))
+		.join("\n");
+	return [
+		list,
+		markdownMeta({ totalMatches: data.totalMatches, shown: data.shown, nextCursor: data.nextCursor }),
+	].join("\n\n");
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, formatDiff } from "./diff";
+
+describe("diffLines", () => {
+	it("marks identical texts as unchanged", () => {
+		expect(diffLines("a\nb", "a\nb")).toEqual([
+			{ type: "same", text: "a" },
+			{ type: "same", text: "b" },
+		]);
+	});
+
+	it("finds added, removed and replaced lines", () => {
+		expect(diffLines("a\nb\nc\nd", "a\nc\nx\nd")).toEqual([
+			{ type: "same", text: "a" },
+			{ type: "remove", text: "b" },
+			{ type: "same", text: "c" },
+			{ type: "add", text: "x" },
+			{ type: "same", text: "d" },
+		]);
+	});
+
+	it("handles empty texts", () => {
+		expect(diffLines("", "new")).toEqual([
+			{ type: "remove", text: "" },
+			{ type: "add", text: "new" },
+		]);
+	});
+
+	it("shows very large changed regions as a full replacement", () => {
+		const before = Array.from({ length: 2500 }, (_, i) => `old ${i}`).join("\n");
+		const after = Array.from({ length: 2500 }, (_, i) => `new ${i}`).join("\n");
+		const lines = diffLines(`head\n${before}\ntail`, `head\n${after}\ntail`);
+
+		expect(lines[0]).toEqual({ type: "same", text: "head" });
+		expect(lines[1]).toEqual({ type: "remove", text: "old 0" });
+		expect(lines[2501]).toEqual({ type: "add", text: "new 0" });
+		expect(lines[lines.length - 1]).toEqual({ type: "same", text: "tail" });
+		expect(lines).toHaveLength(5002);
+	});
+});
+
+describe("formatDiff", () => {
+	it("prefixes lines and keeps context around changes", () => {
+		const before = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join("\n");
+		const after = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "ten"].join("\n");
+		expect(formatDiff(diffLines(before, after), 2)).toBe("@@\n 8\n 9\n-10\n+ten");
+	});
+
+	it("separates distant changes", () => {
+		const before = ["a", "1", "2", "3", "4", "b"].join("\n");
+		const after = ["A", "1", "2", "3", "4", "B"].join("\n");
+		expect(formatDiff(diffLines(before, after), 1)).toBe("-a\n+A\n 1\n@@\n 4\n-b\n+B");
+	});
+
+	it("is empty when nothing changed", () => {
+		expect(formatDiff(diffLines("same", "same"))).toBe("");
+	});
+});
@@ -0,0 +1,114 @@
+/**
+ * Line-based diff using the longest common subsequence
+ */
+
+export interface DiffLine {
+	type: "same" | "add" | "remove";
+	text: string;
+}
+
+// Above this many LCS cells, the changed region is shown as a full replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compute a line diff between two texts
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = before.split("\n");
+	const b = after.split("\n");
+
+	// Strip common prefix and suffix so the LCS only runs on the changed region
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: "same", text }));
+	const midA = a.slice(start, endA);
+	const midB = b.slice(start, endB);
+
+	if (midA.length * midB.length > MAX_LCS_CELLS) {
+		result.push(...midA.map((text): DiffLine => ({ type: "remove", text })));
+		result.push(...midB.map((text): DiffLine => ({ type: "add", text })));
+	} else {
+		result.push(...lcsDiff(midA, midB));
+	}
+
+	result.push(...a.slice(endA).map((text): DiffLine => ({ type: "same", text })));
+	return result;
+}
+
+/**
+ * Diff two line arrays via an LCS table
+ */
+function lcsDiff(a: string[], b: string[]): DiffLine[] {
+	const rows = a.length + 1;
+	const cols = b.length + 1;
+	const table = new Uint32Array(rows * cols);
+
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			table[i * cols + j] =
+				a[i] === b[j]
+					? table[(i + 1) * cols + j + 1]! + 1
+					: Math.max(table[(i + 1) * cols + j]!, table[i * cols + j + 1]!);
+		}
+	}
+
+	const result: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			result.push({ type: "same", text: a[i]! });
+			i++;
+			j++;
+		} else if (table[(i + 1) * cols + j]! >= table[i * cols + j + 1]!) {
+			result.push({ type: "remove", text: a[i]! });
+			i++;
+		} else {
+			result.push({ type: "add", text: b[j]! });
+			j++;
+		}
+	}
+	while (i < a.length) result.push({ type: "remove", text: a[i++]! });
+	while (j < b.length) result.push({ type: "add", text: b[j++]! });
+
+	return result;
+}
+
+/**
+ * Format a diff as unified-style text, keeping `context` unchanged lines around each change
+ */
+export function formatDiff(lines: DiffLine[], context = 3): string {
+	const keep = new Array<boolean>(lines.length).fill(false);
+	lines.forEach((line, index) => {
+		if (line.type === "same") return;
+		for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+			keep[k] = true;
+		}
+	});
+
+	const output: string[] = [];
+	let skipped = false;
+	lines.forEach((line, index) => {
+		if (!keep[index]) {
+			skipped = true;
+			return;
+		}
+		if (skipped) {
+			output.push("@@");
+			skipped = false;
+		}
+		const prefix = line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+		output.push(`${prefix}${line.text}`);
+	});
+
+	return output.join("\n");
+}
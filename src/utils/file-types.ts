@@ -0,0 +1,69 @@
+/**
+ * Classification of vault files by extension
+ */
+
+export type FileType = "note" | "canvas" | "image" | "audio" | "video" | "pdf" | "other";
+
+export const FILE_TYPES: FileType[] = ["note", "canvas", "image", "audio", "video", "pdf", "other"];
+
+const MIME_TYPES: Record<string, string> = {
+	md: "text/markdown",
+	canvas: "application/json",
+	base: "text/yaml",
+	txt: "text/plain",
+	json: "application/json",
+	csv: "text/csv",
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	bmp: "image/bmp",
+	svg: "image/svg+xml",
+	webp: "image/webp",
+	avif: "image/avif",
+	mp3: "audio/mpeg",
+	wav: "audio/wav",
+	m4a: "audio/mp4",
+	ogg: "audio/ogg",
+	flac: "audio/flac",
+	"3gp": "audio/3gpp",
+	mp4: "video/mp4",
+	webm: "video/webm",
+	ogv: "video/ogg",
+	mov: "video/quicktime",
+	mkv: "video/x-matroska",
+	pdf: "application/pdf",
+};
+
+// Formats read as text rather than base64
+const TEXT_EXTENSIONS = new Set(["md", "canvas", "base", "txt", "json", "csv", "svg"]);
+
+/**
+ * Get the MIME type for a file extension (application/octet-stream if unknown)
+ */
+export function getMimeType(extension: string): string {
+	return MIME_TYPES[extension.toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * Get the kind of file for an extension
+ */
+export function getFileType(extension: string): FileType {
+	const ext = extension.toLowerCase();
+	if (ext === "md") return "note";
+	if (ext === "canvas") return "canvas";
+	if (ext === "pdf") return "pdf";
+	// webm is treated as video, like Obsidian does when embedding
+	const mimeType = getMimeType(ext);
+	if (mimeType.startsWith("image/")) return "image";
+	if (mimeType.startsWith("video/")) return "video";
+	if (mimeType.startsWith("audio/")) return "audio";
+	return "other";
+}
+
+/**
+ * Check whether a file is stored as text
+ */
+export function isTextFile(extension: string): boolean {
+	return TEXT_EXTENSIONS.has(extension.toLowerCase());
+}